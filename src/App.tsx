@@ -1,14 +1,62 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { autocompleteNames, fetchByExactName, getImage, getThumb, type ScryfallCard } from "./lib/scryfall";
-import { cardToEntry, loadCube, loadMeta, saveCube, type CubeEntry } from "./lib/storage";
+import { activeDataSource, autocompleteNames, fetchByExactName, getImage, getThumb, setLocalData, type DataSource, type ScryfallCard } from "./lib/scryfall";
+import { isAbortError } from "./lib/scryfallClient";
+import { addEntry, addEntryByName, cardToEntry, clampQty, loadCube, loadMeta, replacePrinting, sameRevision, saveCube, watchCube, type CubeEntry, type CubeMeta } from "./lib/storage";
 import { cubeToCsv, cubeToJson, downloadTextFile } from "./lib/csv";
 import { debounce } from "./lib/debounce";
-import { listBackups, restoreBackup, rotateBackups } from "./lib/backup";
-import { parseCubeJson } from "./lib/importer";
+import { rotateBackups } from "./lib/backup";
+import { quotaWarning } from "./lib/dataStore";
+import { parseCubeJsonReport } from "./lib/importer";
+import { importCubeCsv } from "./lib/csvImport";
+import type { ImportIssue } from "./lib/importPlan";
+import { mergeResolved, type ResolvedLine } from "./lib/decklist";
+import { activeCubeInfo, loadLibrary, migrateLibraryData, updateCubeInfo, watchLibrary, type CubeLibrary } from "./lib/library";
+import PasteImportModal from "./components/PasteImportModal";
+import CubeLibraryPanel from "./components/CubeLibraryPanel";
+import AnalyticsPanel from "./components/AnalyticsPanel";
+import PrintingGrid from "./components/PrintingGrid";
+import AdvancedSearchModal from "./components/AdvancedSearchModal";
+import { canRedo, canUndo, currentEntries, initHistory, jumpTo, pushHistory, redo, undo, type CubeHistory } from "./lib/history";
+import HistoryPanel from "./components/HistoryPanel";
+import { DEFAULT_LIST_VIEW, applyFilters, groupEntries, loadListView, saveListView, sortEntries, type ListViewSettings } from "./lib/listView";
+import CubeToolbar from "./components/CubeToolbar";
+import CubeList from "./components/CubeList";
+import CubeEntryRow from "./components/CubeEntryRow";
+import { addTags, allTags, removeTags, setEntryMeta } from "./lib/tags";
+import TagEditorModal from "./components/TagEditorModal";
+import BulkTagBar from "./components/BulkTagBar";
+import { EXPORT_FORMATS, exportCube, type ExportFormat } from "./lib/exporters";
+import DraftView from "./components/DraftView";
+import SealedView from "./components/SealedView";
+import PrintView from "./components/PrintView";
+import CommandPalette, { type Command } from "./components/CommandPalette";
+import { loadBulkIndex, loadBulkMeta, loadDataSourcePrefs, saveDataSourcePrefs, type BulkIndex } from "./lib/bulkData";
+import DataSourcePanel, { fmtBulkAge } from "./components/DataSourcePanel";
+import { applyResync } from "./lib/resync";
+import ResyncModal from "./components/ResyncModal";
+import ImportPreviewModal from "./components/ImportPreviewModal";
+import { newViolations, normalizeRules } from "./lib/rules";
+import { applyPrices, budgetWarning, cubeCost, formatPrice, loadPricePrefs, parsePrices, savePricePrefs, unitPrice, type CardPrices } from "./lib/prices";
+import PricePanel from "./components/PricePanel";
+import RulesPanel from "./components/RulesPanel";
+import { cubeToShared, encodeShare, shareUrl } from "./lib/share";
+import SyncConflictModal from "./components/SyncConflictModal";
+import BackupManager from "./components/BackupManager";
 
 const BACKUPS_TO_KEEP = 5;
 const BACKUP_EVERY_MS = 45_000; // checkpoint at most every 45s (also on first change)
 
+type View = "cube" | "draft" | "sealed" | "print";
+
+const MAX_SUGGESTIONS = 12;
+
+const VIEWS: Array<{ id: View; label: string }> = [
+  { id: "cube", label: "Cubo" },
+  { id: "draft", label: "Draft" },
+  { id: "sealed", label: "Sealed" },
+  { id: "print", label: "Stampa" }
+];
+
 type Pending = {
   card: ScryfallCard;
   thumb?: string;
@@ -28,36 +76,193 @@ export default function App() {
   const [query, setQuery] = useState("");
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [isSuggestOpen, setIsSuggestOpen] = useState(false);
+  const [activeSuggest, setActiveSuggest] = useState(-1); // keyboard-highlighted suggestion, -1 = none
   const [isLoading, setIsLoading] = useState(false);
 
-  const [cube, setCube] = useState<CubeEntry[]>(() => loadCube());
+  const [view, setView] = useState<View>("cube");
+  const [library, setLibrary] = useState<CubeLibrary>(() => loadLibrary());
+  const activeId = library.active_id;
+  // Every cube mutation goes through the undo/redo history (see applyCube)
+  const [history, setHistory] = useState<CubeHistory>(() => initHistory([]));
+  const cube = currentEntries(history);
+  const [isCubeLoading, setIsCubeLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
+  // A failed write (e.g. quota exceeded) stays on screen until a save succeeds
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
 
   // Preview/confirm step
   const [pending, setPending] = useState<Pending | null>(null);
   const [pendingQty, setPendingQty] = useState<number>(1); // default qty = 1
+  const [showPrints, setShowPrints] = useState(false);
+  const [pendingFace, setPendingFace] = useState(0);
+
+  // Change printing of an entry already in the cube
+  const [printingFor, setPrintingFor] = useState<CubeEntry | null>(null);
+
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [isResyncOpen, setIsResyncOpen] = useState(false);
+  const [isBackupsOpen, setIsBackupsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null); // entry to scroll to once it is rendered
+  const [importPreview, setImportPreview] = useState<{ source: string; entries: CubeEntry[]; rejected: ImportIssue[]; adjusted: ImportIssue[] } | null>(null);
+  const [pricePrefs, setPricePrefs] = useState(() => loadPricePrefs());
+  const [listView, setListView] = useState<ListViewSettings>(() => loadListView());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("cubecobra");
+  const [exportWarnings, setExportWarnings] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [metaFor, setMetaFor] = useState<CubeEntry | null>(null);
+  // Another tab saved the active cube while this one had unsaved edits
+  const [conflict, setConflict] = useState<{ base: CubeEntry[]; remote: CubeEntry[]; meta: CubeMeta | null; refreshed?: boolean } | null>(null);
 
-  const meta = loadMeta();
+  // Offline card data (Scryfall bulk file) and which source lookups use
+  const [bulk, setBulk] = useState<BulkIndex | null>(null);
+  const [dataPrefs, setDataPrefs] = useState(() => loadDataSourcePrefs());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [dataSource, setDataSource] = useState<DataSource>("online");
+  const bulkMeta = bulk?.meta ?? loadBulkMeta();
+
+  const meta = loadMeta(activeId);
+  const cubeReady = !isCubeLoading && !loadError;
   const totalCount = useMemo(() => cube.reduce((acc, e) => acc + e.qty, 0), [cube]);
+  const currency = pricePrefs.currency;
+  const cost = useMemo(() => cubeCost(cube, currency), [cube, currency]);
+  const budget = activeCubeInfo(library).budget;
+  const pendingFaces = pending?.card.card_faces && pending.card.card_faces.length > 1 ? pending.card.card_faces : null;
+  const pendingShown = pendingFaces?.[pendingFace] ?? pending?.card;
+  const pendingImage = pending ? getImage(pending.card, pendingFace) ?? pending.image : undefined;
+  const pendingPrice = pending ? unitPrice(parsePrices(pending.card.prices), currency) : null;
+  const pendingBudgetWarning = budgetWarning(cost.total, (pendingPrice ?? 0) * clampQty(pendingQty), budget, currency);
+  const rules = useMemo(() => normalizeRules(activeCubeInfo(library).rules), [library]);
+  // Rules the pending add would break, checked against the cube as it would be after the add
+  const pendingRuleWarnings = useMemo(() => {
+    if (!pending) return [];
+    const entry = { ...cardToEntry(pending.card, pending.thumb), qty: clampQty(pendingQty) };
+    return newViolations(cube, addEntry(cube, entry), rules);
+  }, [pending, pendingQty, cube, rules]);
+
+  const visible = useMemo(
+    () => sortEntries(applyFilters(cube, listView.filters), listView.sort, listView.dir),
+    [cube, listView.filters, listView.sort, listView.dir]
+  );
+  const visibleCount = visible.length;
+  const groups = useMemo(() => groupEntries(visible, listView.group, listView.subgroup), [visible, listView.group, listView.subgroup]);
+
+  const knownTags = useMemo(() => allTags(cube).map((t) => t.tag), [cube]);
 
   const cacheRef = useRef(new Map<string, string[]>()); // q -> suggestions
+  const suggestAbortRef = useRef<AbortController | null>(null); // in-flight autocomplete, aborted when superseded
   const clickAwayRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
   const lastCheckpointRef = useRef<number>(0);
   const dirtyRef = useRef<boolean>(false);
+  // Last revision of the active cube this tab loaded or wrote, and the entries it holds;
+  // nothing is saved for a cube until openCube has loaded it
+  const openingRef = useRef<string>("");
+  const cubeReadyRef = useRef(false); // false while a cube is loading or failed to load: edits would be lost
+  const syncRef = useRef<{ cubeId: string; base: CubeMeta | null; entries: CubeEntry[] }>({ cubeId: "", base: null, entries: [] });
+  const cubeRef = useRef(cube);
+  cubeRef.current = cube;
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
+  useEffect(() => {
+    migrateAndOpen(library.active_id);
+    quotaWarning().then(setStorageWarning);
+  }, []);
 
   // Persist on any change
   useEffect(() => {
-    saveCube(cube);
-    dirtyRef.current = true;
+    saveActiveCube();
+  }, [cube, activeId]);
 
-    const now = Date.now();
-    if (now - lastCheckpointRef.current > BACKUP_EVERY_MS) {
-      rotateBackups(cube, BACKUPS_TO_KEEP);
-      lastCheckpointRef.current = now;
-      dirtyRef.current = false;
-    }
-  }, [cube]);
+  // Follow saves of the active cube made in other tabs
+  useEffect(
+    () =>
+      watchCube(activeId, async () => {
+        const sync = syncRef.current;
+        const stored = loadMeta(activeId);
+        if (sync.cubeId !== activeId || sameRevision(stored, sync.base)) return;
+        let remote: CubeEntry[];
+        try {
+          remote = await loadCube(activeId);
+        } catch (e: any) {
+          setError(e?.message ?? "Errore lettura del cubo salvato");
+          return;
+        }
+        if (syncRef.current !== sync || !sameRevision(loadMeta(activeId), stored)) return; // a newer save is on its way
+        if (cubeRef.current === sync.entries) {
+          // No edits of our own since the last save: take theirs as they are
+          sync.base = stored;
+          sync.entries = remote;
+          setHistory((h) => pushHistory(h, "Modifiche da un'altra scheda", remote));
+        } else {
+          setConflict({ base: sync.entries, remote, meta: stored });
+        }
+      }),
+    [activeId]
+  );
+
+  // Keep the library (cube list, names, budgets) in step with other tabs; the active cube stays per tab
+  useEffect(
+    () =>
+      watchLibrary(() => {
+        const remote = loadLibrary();
+        const current = libraryRef.current.active_id;
+        if (remote.cubes.some((c) => c.id === current)) {
+          setLibrary({ ...remote, active_id: current });
+          return;
+        }
+        setLibrary(remote);
+        openCube(remote.active_id, `Aperto "${activeCubeInfo(remote).name}"`);
+        setConflict(null);
+        setSelectedIds(new Set());
+        setPending(null);
+        setInfo(`Il cubo aperto è stato eliminato in un'altra scheda. Cubo attivo: ${activeCubeInfo(remote).name}`);
+      }),
+    []
+  );
+
+  useEffect(() => {
+    saveListView(listView);
+  }, [listView]);
+
+  useEffect(() => {
+    savePricePrefs(pricePrefs);
+  }, [pricePrefs]);
+
+  // A new card or printing in the preview starts from its front face
+  useEffect(() => {
+    setPendingFace(0);
+  }, [pending?.card.id]);
+
+  useEffect(() => {
+    if (!loadBulkMeta()) return;
+    loadBulkIndex()
+      .then((index) => setBulk(index))
+      .catch((e: any) => setError(e?.message ?? "Errore caricamento dati offline"));
+  }, []);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => {
+    saveDataSourcePrefs(dataPrefs);
+    setLocalData(bulk, dataPrefs.offlineOnly);
+    setDataSource(activeDataSource());
+    cacheRef.current.clear(); // suggestions differ between sources
+  }, [bulk, dataPrefs, isOnline]);
 
   // Close warning if user changed very recently
   useEffect(() => {
@@ -80,19 +285,99 @@ export default function App() {
     return () => document.removeEventListener("mousedown", onDocClick);
   }, []);
 
+  // Ctrl+K command palette (from anywhere); Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo/redo, unless a text field handles it natively
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "k") {
+        e.preventDefault();
+        setIsPaletteOpen((v) => !v);
+        return;
+      }
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === "INPUT" || t.tagName === "TEXTAREA" || t.tagName === "SELECT" || t.isContentEditable)) return;
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        editHistory(undo);
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        editHistory(redo);
+      }
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, []);
+
   // Escape closes modal
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") setPending(null);
+      if (e.key !== "Escape") return;
+      setPending(null);
+      setPrintingFor(null);
+      setMetaFor(null);
     };
     document.addEventListener("keydown", onKey);
     return () => document.removeEventListener("keydown", onKey);
   }, []);
 
+  // In the add preview: + / - change the qty, Enter adds the card (buttons and links keep their own Enter);
+  // re-bound on every cube change so confirmAddPending never sees a stale cube
+  useEffect(() => {
+    if (!pending) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const t = e.target as HTMLElement | null;
+      if (e.key === "+" || e.key === "=") {
+        e.preventDefault();
+        setPendingQty((q) => clampQty(q + 1));
+      } else if (e.key === "-") {
+        e.preventDefault();
+        setPendingQty((q) => clampQty(q - 1));
+      } else if (e.key === "Enter" && !(t && (t.tagName === "BUTTON" || t.tagName === "A" || t.tagName === "SELECT"))) {
+        e.preventDefault();
+        confirmAddPending();
+      }
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [pending, pendingQty, cube]);
+
+  useEffect(() => {
+    setActiveSuggest(-1);
+  }, [suggestions]);
+
+  useEffect(() => {
+    if (activeSuggest >= 0) document.getElementById(`suggest-${activeSuggest}`)?.scrollIntoView({ block: "nearest" });
+  }, [activeSuggest]);
+
+  // Scroll to the card picked in the palette, opening its collapsed groups first
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const paths = groups
+      .flatMap((g) => [g, ...(g.children ?? [])])
+      .filter((g) => g.entries.some((e) => e.id === jumpTarget))
+      .map((g) => g.path);
+    if (paths.some((p) => listView.collapsed.includes(p))) {
+      setListView((v) => ({ ...v, collapsed: v.collapsed.filter((p) => !paths.includes(p)) }));
+      return;
+    }
+    const el = document.getElementById(`entry-${jumpTarget}`);
+    if (el) {
+      el.scrollIntoView({ behavior: "smooth", block: "center" });
+      el.classList.remove("flash");
+      void el.offsetWidth; // restart the animation when jumping to the same card twice
+      el.classList.add("flash");
+    }
+    setJumpTarget(null);
+  }, [jumpTarget, groups, listView.collapsed]);
+
   const runSuggest = useMemo(
     () =>
       debounce(async (q: string) => {
         setError(null);
+        suggestAbortRef.current?.abort();
+        suggestAbortRef.current = null;
         const trimmed = q.trim();
         if (trimmed.length < 2) {
           setSuggestions([]);
@@ -104,11 +389,14 @@ export default function App() {
           setSuggestions(cached);
           return;
         }
+        const ctrl = new AbortController();
+        suggestAbortRef.current = ctrl;
         try {
-          const res = await autocompleteNames(trimmed);
+          const res = await autocompleteNames(trimmed, ctrl.signal);
           cacheRef.current.set(key, res);
           setSuggestions(res);
         } catch (e: any) {
+          if (isAbortError(e)) return;
           setError(e?.message ?? "Errore autocomplete");
           setSuggestions([]);
         }
@@ -135,9 +423,40 @@ export default function App() {
 
       setPending({ card, thumb, image });
       setPendingQty(1);
+      setShowPrints(false);
+      setQuery("");
+      setSuggestions([]);
+      setIsSuggestOpen(false);
+    } catch (e: any) {
+      setError(e?.message ?? "Errore caricamento carta");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Shift+Enter in the search box: one copy straight into the cube, warnings reported afterwards
+  async function quickAddByName(name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setIsLoading(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      const card = await fetchByExactName(trimmed);
+      const entry = cardToEntry(card, getThumb(card));
+      const warnings = [
+        budgetWarning(cost.total, unitPrice(parsePrices(card.prices), currency) ?? 0, budget, currency),
+        ...newViolations(cube, addEntryByName(cube, entry), rules).map((v) => v.message)
+      ].filter((w): w is string => !!w);
+
+      if (!applyCube(`Aggiunta ${card.name} (x1)`, (prev) => addEntryByName(prev, entry))) return;
+
       setQuery("");
       setSuggestions([]);
       setIsSuggestOpen(false);
+      setInfo(`${card.name} aggiunta al cubo (x1).${warnings.length > 0 ? ` Attenzione: ${warnings.join(" • ")}` : ""}`);
     } catch (e: any) {
       setError(e?.message ?? "Errore caricamento carta");
     } finally {
@@ -145,36 +464,271 @@ export default function App() {
     }
   }
 
+  function onSearchKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    const count = Math.min(suggestions.length, MAX_SUGGESTIONS);
+    if ((e.key === "ArrowDown" || e.key === "ArrowUp") && count > 0) {
+      e.preventDefault();
+      const down = e.key === "ArrowDown";
+      setIsSuggestOpen(true);
+      setActiveSuggest((i) => (down ? (i + 1) % count : i <= 0 ? count - 1 : i - 1));
+    } else if (e.key === "Escape") {
+      setIsSuggestOpen(false);
+      setActiveSuggest(-1);
+    } else if (e.key === "Enter") {
+      const name = isSuggestOpen && activeSuggest >= 0 && activeSuggest < count ? suggestions[activeSuggest] : query.trim();
+      if (!name) return;
+      if (e.shiftKey) quickAddByName(name);
+      else previewCardByName(name);
+    }
+  }
+
+  // Show a card in the list: back to the cube tab, without filters if they hide it
+  function jumpToCard(id: string) {
+    setView("cube");
+    if (!visible.some((e) => e.id === id)) setListView((v) => ({ ...v, filters: DEFAULT_LIST_VIEW.filters }));
+    setJumpTarget(id);
+  }
+
+  /** Every edit of the cube goes through here; refused until the active cube has loaded. */
+  function editHistory(update: (h: CubeHistory) => CubeHistory): boolean {
+    if (!cubeReadyRef.current) {
+      setError("Il cubo non è ancora caricato: la modifica non è stata applicata.");
+      return false;
+    }
+    setHistory(update);
+    return true;
+  }
+
+  function applyCube(label: string, update: (prev: CubeEntry[]) => CubeEntry[], coalesceKey?: string): boolean {
+    return editHistory((h) => pushHistory(h, label, update(currentEntries(h)), coalesceKey));
+  }
+
   function confirmAddPending() {
     if (!pending) return;
-    const qty = Math.max(1, Math.min(99, Number(pendingQty) || 1));
     const { card, thumb } = pending;
+    const entry = cardToEntry(card, thumb);
+    entry.qty = clampQty(pendingQty);
+
+    const otherPrinting = cube.some((e) => e.name === card.name && e.id !== card.id) && !cube.some((e) => e.id === card.id);
+    if (!applyCube(`Aggiunta ${card.name} (x${entry.qty})`, (prev) => addEntry(prev, entry))) return;
+
+    setPending(null);
+    setInfo(otherPrinting ? "Carta aggiunta al cubo, in una riga separata: il cubo contiene già un'altra stampa." : "Carta aggiunta al cubo.");
+  }
+
+  function pickPendingPrinting(card: ScryfallCard) {
+    setPending({ card, thumb: getThumb(card), image: getImage(card) });
+    setShowPrints(false);
+  }
+
+  function changeEntryPrinting(card: ScryfallCard) {
+    if (!printingFor) return;
+    const entryId = printingFor.id;
+    const merged = card.id !== entryId && cube.some((e) => e.id === card.id);
+    if (!applyCube(`Cambiata stampa ${card.name} (${card.set.toUpperCase()})`, (prev) => replacePrinting(prev, entryId, card, getThumb(card)))) return;
+    setPrintingFor(null);
+    setInfo(
+      `Stampa aggiornata: ${card.name} (${card.set.toUpperCase()} #${card.collector_number})` +
+        (merged ? ", unita alla riga che aveva già questa stampa." : ".")
+    );
+  }
 
-    setCube((prev) => {
-      const idx = prev.findIndex((x) => x.id === card.id || x.name === card.name);
-      if (idx >= 0) {
-        const next = prev.slice();
-        next[idx] = { ...next[idx], qty: Math.min(99, next[idx].qty + qty) };
-        return next;
+  /** " Attenzione: …" when the cube an add produces goes over the budget, else "". */
+  function budgetNotice(next: CubeEntry[]): string {
+    const warning = budgetWarning(cost.total, cubeCost(next, currency).total - cost.total, budget, currency);
+    return warning ? ` Attenzione: ${warning}` : "";
+  }
+
+  function addSearchResults(cards: ScryfallCard[]): boolean {
+    const add = (prev: CubeEntry[]) => cards.reduce((acc, c) => addEntryByName(acc, cardToEntry(c, getThumb(c))), prev);
+    const notice = budgetNotice(add(cube));
+    if (!applyCube(`Aggiunte ${cards.length} carte (ricerca)`, add)) return false;
+    setError(null);
+    setInfo(`${cards.length} carte aggiunte dalla ricerca avanzata.${notice}`);
+    return true;
+  }
+
+  function applyResyncUpdates(accepted: Array<{ entryId: string; card: ScryfallCard }>) {
+    if (accepted.length === 0) return;
+    applyCube(`Aggiornate ${accepted.length} carte da Scryfall`, (prev) => applyResync(prev, accepted));
+    setError(null);
+    setInfo(`${accepted.length} carte aggiornate da Scryfall.`);
+  }
+
+  function applyFetchedPrices(prices: Map<string, CardPrices | undefined>, at: number) {
+    applyCube("Aggiornati prezzi", (prev) => applyPrices(prev, prices, at));
+    setError(null);
+    setInfo(`Prezzi aggiornati per ${prices.size} carte.`);
+  }
+
+  function importPasted(resolved: ResolvedLine[]): boolean {
+    if (resolved.length === 0) return true;
+    const notice = budgetNotice(mergeResolved(cube, resolved));
+    if (!applyCube(`Importate ${resolved.length} righe (lista incollata)`, (prev) => mergeResolved(prev, resolved))) return false;
+    setError(null);
+    setInfo(`Lista importata: ${resolved.length} righe aggiunte.${notice}`);
+    return true;
+  }
+
+  /** Move old localStorage data into IndexedDB, then open the cube; also what "Riprova" runs after a failed load. */
+  function migrateAndOpen(id: string) {
+    openingRef.current = id;
+    cubeReadyRef.current = false;
+    setIsCubeLoading(true);
+    setLoadError(null);
+    migrateLibraryData(libraryRef.current)
+      .then(() => openCube(id))
+      .catch((e: any) => {
+        if (openingRef.current !== id) return;
+        setLoadError(`${e?.message ?? "Errore migrazione dati"} I dati restano nel vecchio formato finché la migrazione non riesce.`);
+        setIsCubeLoading(false);
+      });
+  }
+
+  async function openCube(id: string, label?: string) {
+    openingRef.current = id;
+    cubeReadyRef.current = false;
+    setIsCubeLoading(true);
+    setLoadError(null);
+    const base = loadMeta(id);
+    try {
+      const entries = await loadCube(id);
+      if (openingRef.current !== id) return; // another cube was opened meanwhile
+      syncRef.current = { cubeId: id, base, entries };
+      setHistory(initHistory(entries, label));
+      lastCheckpointRef.current = 0;
+      cubeReadyRef.current = true;
+    } catch (e: any) {
+      if (openingRef.current !== id) return;
+      setLoadError(e?.message ?? "Errore caricamento cubo");
+    }
+    setIsCubeLoading(false);
+  }
+
+  /** Save the cube if it changed since the last load/save, unless another tab saved in the meantime. */
+  function saveActiveCube() {
+    const sync = syncRef.current;
+    if (sync.cubeId !== activeId || cube === sync.entries) return;
+    const stored = loadMeta(activeId);
+    if (!sameRevision(stored, sync.base)) {
+      loadCube(activeId)
+        .then((remote) => setConflict({ base: sync.entries, remote, meta: stored }))
+        .catch((e: any) => setSaveError(e?.message ?? "Salvataggio non riuscito"));
+      return;
+    }
+
+    const entries = cube;
+    dirtyRef.current = true;
+    saveCube(activeId, entries)
+      .then((meta) => {
+        if (syncRef.current !== sync) return;
+        sync.base = meta;
+        sync.entries = entries;
+        setSaveError(null);
+      })
+      .catch((e: any) => setSaveError(e?.message ?? "Salvataggio non riuscito"));
+
+    const now = Date.now();
+    if (now - lastCheckpointRef.current > BACKUP_EVERY_MS) {
+      lastCheckpointRef.current = now;
+      rotateBackups(activeId, entries, BACKUPS_TO_KEEP)
+        .then(() => {
+          dirtyRef.current = false;
+          return quotaWarning();
+        })
+        .then(setStorageWarning)
+        .catch((e: any) => setSaveError(e?.message ?? "Backup automatico non riuscito"));
+    }
+  }
+
+  async function resolveConflict(entries: CubeEntry[], label: string) {
+    const sync = syncRef.current;
+    const shown = conflict;
+    const stored = loadMeta(activeId);
+    if (shown && !sameRevision(stored, shown.meta)) {
+      // The other tab saved again while the dialog was open: the choice was made against an old version
+      try {
+        const remote = await loadCube(activeId);
+        setConflict({ base: shown.base, remote, meta: stored, refreshed: true });
+      } catch (e: any) {
+        setSaveError(e?.message ?? "Errore lettura del cubo salvato");
       }
-      const entry = cardToEntry(card, thumb);
-      entry.qty = qty;
-      return [...prev, entry];
-    });
+      return;
+    }
+    try {
+      sync.base = await saveCube(activeId, entries);
+    } catch (e: any) {
+      setSaveError(e?.message ?? "Salvataggio non riuscito");
+      return;
+    }
+    sync.entries = entries;
+    dirtyRef.current = true;
+    setSaveError(null);
+    setConflict(null);
+    setHistory((h) => pushHistory(h, label, entries));
+    setInfo(`${label}.`);
+  }
 
+  function changeLibrary(next: CubeLibrary) {
+    const switched = next.active_id !== library.active_id;
+    setLibrary(next);
+    if (!switched) return;
+    // The current cube is already persisted by the autosave effect
+    openCube(next.active_id, `Aperto "${activeCubeInfo(next).name}"`);
+    setSelectedIds(new Set());
     setPending(null);
-    setInfo("Carta aggiunta al cubo.");
+    setError(null);
+    setInfo(`Cubo attivo: ${activeCubeInfo(next).name}`);
+  }
+
+  function toggleSection(path: string) {
+    setListView((v) => ({
+      ...v,
+      collapsed: v.collapsed.includes(path) ? v.collapsed.filter((p) => p !== path) : [...v.collapsed, path]
+    }));
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function bulkAddTags(tags: string[]) {
+    const ids = new Set(selectedIds);
+    applyCube(`Tag ${tags.map((t) => `"${t}"`).join(", ")} aggiunto a ${ids.size} carte`, (prev) => addTags(prev, ids, tags));
+  }
+
+  function bulkRemoveTag(tag: string) {
+    const ids = new Set(selectedIds);
+    applyCube(`Tag "${tag}" rimosso da ${ids.size} carte`, (prev) => removeTags(prev, ids, [tag]));
+  }
+
+  function saveEntryMeta(tags: string[], notes: string) {
+    if (!metaFor) return;
+    const { id, name } = metaFor;
+    applyCube(`Tag/note ${name}`, (prev) => setEntryMeta(prev, id, tags, notes));
+    setMetaFor(null);
+  }
+
+  function filterByTag(tag: string) {
+    setListView((v) => (v.filters.tags.includes(tag) ? v : { ...v, filters: { ...v.filters, tags: [...v.filters.tags, tag] } }));
   }
 
   function removeEntry(id: string) {
-    setCube((prev) => prev.filter((x) => x.id !== id));
+    const name = cube.find((x) => x.id === id)?.name ?? id;
+    applyCube(`Rimossa ${name}`, (prev) => prev.filter((x) => x.id !== id));
   }
 
   function setQty(id: string, qty: number) {
     let q = qty;
     if (!Number.isFinite(q) || q < 1) q = 1;
     if (q > 99) q = 99;
-    setCube((prev) => prev.map((x) => (x.id === id ? { ...x, qty: q } : x)));
+    const name = cube.find((x) => x.id === id)?.name ?? id;
+    applyCube(`Qty ${name} → ${q}`, (prev) => prev.map((x) => (x.id === id ? { ...x, qty: q } : x)), `qty:${id}`);
   }
 
   function exportCsv() {
@@ -189,59 +743,77 @@ export default function App() {
     setInfo("JSON esportato (backup completo).");
   }
 
+  function exportAs() {
+    const res = exportCube(exportFormat, cube, activeCubeInfo(library).name);
+    downloadTextFile(res.filename, res.text, res.mime);
+    setExportWarnings(res.warnings);
+    setInfo(`Esportato ${res.filename}.`);
+  }
+
+  async function shareLink() {
+    const cubeInfo = activeCubeInfo(library);
+    try {
+      const url = shareUrl(await encodeShare(cubeToShared(cubeInfo.name, cubeInfo.description, cube)));
+      try {
+        await navigator.clipboard.writeText(url);
+        setError(null);
+        setInfo(`Link copiato negli appunti (${url.length} caratteri). Chi lo apre vede il cubo in sola lettura.`);
+      } catch {
+        // Clipboard not available (permissions, non-secure context): let the user copy it by hand
+        prompt("Copia il link di condivisione:", url);
+      }
+    } catch (e: any) {
+      setError(e?.message ?? "Errore creazione link di condivisione");
+    }
+  }
+
   async function importJsonFile(file: File) {
     try {
       setError(null);
       setInfo(null);
       const text = await file.text();
-      const entries = parseCubeJson(text);
-
-      const msg =
-        `Import: trovate ${entries.length} righe.\n\n` +
-        `OK = Sostituisci il cubo corrente\n` +
-        `Annulla = Unisci (somma qty dove possibile)`;
-
-      const replace = confirm(msg);
-
-      setCube((prev) => {
-        if (replace) return entries;
-
-        const map = new Map<string, CubeEntry>();
-        for (const p of prev) map.set(p.id || p.name, { ...p });
+      const report = parseCubeJsonReport(text);
+      if (report.entries.length === 0 && report.rejected.length === 0) throw new Error("Nessuna entry trovata nel JSON.");
+      setImportPreview({ source: "JSON", ...report });
+    } catch (e: any) {
+      setError(e?.message ?? "Errore import JSON");
+    }
+  }
 
-        for (const e of entries) {
-          const key = e.id || e.name;
-          const existing = map.get(key);
-          if (existing) {
-            map.set(key, { ...existing, qty: Math.min(99, existing.qty + e.qty) });
-          } else {
-            map.set(key, { ...e });
-          }
-        }
-        return Array.from(map.values());
+  async function importCsvFile(file: File) {
+    try {
+      setError(null);
+      setInfo("Import CSV: risoluzione carte su Scryfall…");
+      const text = await file.text();
+      const res = await importCubeCsv(text, (done, total) => setInfo(`Import CSV: risoluzione carte su Scryfall… ${done}/${total}`));
+      const rejected = [...res.rejected, ...res.unresolved.map((u) => ({ row: u.line.line, name: u.line.name, reason: u.reason }))];
+      if (res.entries.length === 0 && rejected.length === 0) throw new Error("Il CSV non contiene righe da importare.");
+      setInfo(null);
+      setImportPreview({
+        source: res.layout === "cubecobra" ? "CSV CubeCobra" : "CSV",
+        entries: res.entries,
+        rejected: rejected.sort((a, b) => a.row - b.row),
+        adjusted: res.adjusted
       });
-
-      setInfo("Import completato.");
     } catch (e: any) {
-      setError(e?.message ?? "Errore import JSON");
+      setInfo(null);
+      setError(e?.message ?? "Errore import CSV");
     }
   }
 
   function onPickImportFile(ev: React.ChangeEvent<HTMLInputElement>) {
     const f = ev.target.files?.[0];
     if (!f) return;
-    if (!f.name.toLowerCase().endsWith(".json")) {
-      setError("Seleziona un file .json");
-      ev.target.value = "";
-      return;
-    }
-    importJsonFile(f);
+    const name = f.name.toLowerCase();
+    if (name.endsWith(".json")) importJsonFile(f);
+    else if (name.endsWith(".csv")) importCsvFile(f);
+    else setError("Seleziona un file .json o .csv");
     ev.target.value = "";
   }
 
   function clearCube() {
     if (!confirm("Sicuro di voler svuotare il cubo?")) return;
-    setCube([]);
+    if (!applyCube("Cubo svuotato", () => [])) return;
     setQuery("");
     setSuggestions([]);
     setError(null);
@@ -249,187 +821,337 @@ export default function App() {
     setInfo("Cubo svuotato.");
   }
 
-  function openRestore() {
-    try {
-      const backups = listBackups(BACKUPS_TO_KEEP);
-      if (backups.length === 0) {
-        alert("Nessun backup disponibile in questo browser.");
-        return;
-      }
-      const options = backups
-        .map((b, i) => `${i + 1}) Backup #${b.index} — ${fmtTime(b.updated_at)} (${b.size} bytes)`)
-        .join("\n");
-
-      const choice = prompt(
-        `Scegli un backup da ripristinare digitando il numero:\n\n${options}\n\n(Annulla per uscire)`
-      );
-      if (!choice) return;
-      const n = Number(choice);
-      if (!Number.isFinite(n) || n < 1 || n > backups.length) {
-        alert("Scelta non valida.");
-        return;
-      }
-      const selected = backups[n - 1];
-      if (!confirm(`Ripristinare: Backup #${selected.index} — ${fmtTime(selected.updated_at)} ?`)) return;
-
-      const restored = restoreBackup(selected.key);
-      setCube(restored);
-      setInfo("Backup ripristinato.");
-    } catch (e: any) {
-      alert(e?.message ?? "Errore ripristino backup");
-    }
+  function restoreFromBackup(entries: CubeEntry[], label: string) {
+    if (!applyCube(label, () => entries)) return;
+    setError(null);
+    setInfo(`${label}.`);
   }
 
+  const commands: Command[] = isPaletteOpen
+    ? [
+        ...(cubeReady && cube.length > 0
+          ? [
+              { id: "export-csv", label: "Export CSV", run: exportCsv },
+              { id: "export-json", label: "Export JSON (backup)", run: exportJson }
+            ]
+          : []),
+        ...(cubeReady
+          ? [
+              { id: "import", label: "Import JSON/CSV…", run: () => importInputRef.current?.click() },
+              { id: "backups", label: "Backup e ripristino…", hint: "snapshot, ripristina", run: () => setIsBackupsOpen(true) }
+            ]
+          : []),
+        ...(cubeReady && cube.length > 0 ? [{ id: "clear", label: "Svuota cubo", run: clearCube }] : []),
+        ...cube.map((e) => ({
+          id: `entry-${e.id}`,
+          label: `Vai a: ${e.name}`,
+          hint: `${e.set.toUpperCase()} #${e.collector_number}`,
+          run: () => jumpToCard(e.id)
+        }))
+      ]
+    : [];
+
   return (
     <div className="container">
       <div className="header">
         <h1 className="title">MTG Cube Builder</h1>
+        <span className="badge" title={activeCubeInfo(library).description || undefined}>{activeCubeInfo(library).name}</span>
         <span className="badge">Desktop-first</span>
-        <span className="badge">Scryfall API</span>
+        <span className="badge" title={bulkMeta ? `Dati offline: ${bulkMeta.file_name}, generato ${fmtBulkAge(bulkMeta)}` : undefined}>
+          {dataSource === "local" && bulkMeta ? `Dati offline (${fmtBulkAge(bulkMeta)})` : isOnline ? "Scryfall API" : "Offline"}
+        </span>
       </div>
       <p className="subtitle">
-        Totale carte (qty): <b>{totalCount}</b> • Righe: <b>{cube.length}</b> • Ultimo salvataggio: <b>{fmtTime(meta?.updated_at)}</b>
+        Totale carte (qty): <b>{totalCount}</b> • Righe: <b>{cube.length}</b> • Costo:{" "}
+        <b className={budget !== undefined && cost.total > budget ? "overBudget" : undefined}>{formatPrice(cost.total, currency)}</b>
+        {budget !== undefined && <> / {formatPrice(budget, currency)}</>} • Ultimo salvataggio: <b>{fmtTime(meta?.updated_at)}</b>
       </p>
 
-      <div className="two-col" style={{ marginTop: 14 }}>
-        <div className="card" ref={clickAwayRef}>
-          <div className="row">
-            <div className="dropdown" style={{ flex: 1, minWidth: 360 }}>
-              <input
-                className="input"
-                value={query}
-                placeholder='Cerca per nome (autocomplete EN). Invio oppure "Anteprima" per vedere la carta.'
-                onChange={(e) => {
-                  setQuery(e.target.value);
-                  setIsSuggestOpen(true);
-                }}
-                onFocus={() => setIsSuggestOpen(true)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" && query.trim().length > 0) previewCardByName(query.trim());
-                }}
-              />
-              {isSuggestOpen && suggestions.length > 0 && (
-                <div className="suggest" role="listbox" aria-label="Suggerimenti carte">
-                  {suggestions.slice(0, 12).map((s) => (
-                    <button key={s} onClick={() => previewCardByName(s)} title="Mostra anteprima">
-                      {s}
-                    </button>
-                  ))}
-                </div>
-              )}
-            </div>
+      <nav className="tabs" aria-label="Sezioni">
+        {VIEWS.map((v) => (
+          <button key={v.id} className={`tab${view === v.id ? " active" : ""}`} onClick={() => setView(v.id)}>
+            {v.label}
+          </button>
+        ))}
+      </nav>
 
-            <button className="button" disabled={isLoading || query.trim().length === 0} onClick={() => previewCardByName(query.trim())}>
-              {isLoading ? "Carico…" : "Anteprima"}
-            </button>
-          </div>
+      {view === "cube" && (
+        <div className="two-col">
+          <div className="card" ref={clickAwayRef}>
+            <div className="row">
+              <div className="dropdown" style={{ flex: 1, minWidth: 360 }}>
+                <input
+                  className="input"
+                  value={query}
+                  placeholder="Cerca per nome (autocomplete EN). Invio = anteprima, Shift+Invio = aggiungi subito, Ctrl+K = comandi"
+                  onChange={(e) => {
+                    setQuery(e.target.value);
+                    setIsSuggestOpen(true);
+                  }}
+                  onFocus={() => setIsSuggestOpen(true)}
+                  onKeyDown={onSearchKeyDown}
+                  role="combobox"
+                  aria-expanded={isSuggestOpen && suggestions.length > 0}
+                  aria-controls="suggest-list"
+                  aria-activedescendant={isSuggestOpen && activeSuggest >= 0 ? `suggest-${activeSuggest}` : undefined}
+                />
+                {isSuggestOpen && suggestions.length > 0 && (
+                  <div className="suggest" id="suggest-list" role="listbox" aria-label="Suggerimenti carte">
+                    {suggestions.slice(0, MAX_SUGGESTIONS).map((s, i) => (
+                      <button
+                        key={s}
+                        id={`suggest-${i}`}
+                        role="option"
+                        aria-selected={i === activeSuggest}
+                        className={i === activeSuggest ? "active" : undefined}
+                        onMouseEnter={() => setActiveSuggest(i)}
+                        onClick={(e) => (e.shiftKey ? quickAddByName(s) : previewCardByName(s))}
+                        title="Mostra anteprima (Shift+clic: aggiungi subito)"
+                      >
+                        {s}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
 
-          {error && (
-            <div className="banner" style={{ borderColor: "#5b2630", background: "rgba(59,11,20,0.35)" }}>
-              <span className="badge">Errore</span> <span className="small">{error}</span>
-            </div>
-          )}
-          {info && (
-            <div className="banner">
-              <span className="badge">Info</span> <span className="small">{info}</span>
+              <button className="button" disabled={isLoading || query.trim().length === 0} onClick={() => previewCardByName(query.trim())}>
+                {isLoading ? "Carico…" : "Anteprima"}
+              </button>
+              <button className="button secondary" onClick={() => setIsPasteOpen(true)} title="Importa una lista di carte in formato testo">
+                Incolla lista
+              </button>
+              <button className="button secondary" onClick={() => setIsSearchOpen(true)} title="Ricerca con sintassi Scryfall completa">
+                Ricerca avanzata
+              </button>
             </div>
-          )}
-
-          <hr />
 
-          {cube.length === 0 ? (
-            <div className="small">Nessuna carta nel cubo. Cerca → Anteprima → Aggiungi 🙂</div>
-          ) : (
-            <>
-              <div className="row" style={{ justifyContent: "space-between" }}>
-                <div className="small muted">
-                  Tip: per spostare il cubo su un altro PC/browser, usa Export JSON + Import JSON.
-                </div>
+            {error && (
+              <div className="banner" style={{ borderColor: "#5b2630", background: "rgba(59,11,20,0.35)" }}>
+                <span className="badge">Errore</span> <span className="small">{error}</span>
+              </div>
+            )}
+            {info && (
+              <div className="banner">
+                <span className="badge">Info</span> <span className="small">{info}</span>
               </div>
+            )}
+            {saveError && (
+              <div className="banner" style={{ borderColor: "#5b2630", background: "rgba(59,11,20,0.35)" }}>
+                <span className="badge">Non salvato</span> <span className="small">{saveError}</span>
+                <button className="button secondary" onClick={saveActiveCube}>
+                  Riprova
+                </button>
+              </div>
+            )}
+            {storageWarning && !saveError && (
+              <div className="banner" style={{ borderColor: "#5b4a26", background: "rgba(59,44,11,0.35)" }}>
+                <span className="badge">Attenzione</span> <span className="small">{storageWarning}</span>
+              </div>
+            )}
 
-              <div className="grid">
-                {cube
-                  .slice()
-                  .sort((a, b) => a.name.localeCompare(b.name))
-                  .map((e) => (
-                    <div key={e.id} className="card item">
-                      <div className="thumb" title={e.name}>
-                        {e.thumb ? <img src={e.thumb} alt={e.name} loading="lazy" /> : <span className="small">no img</span>}
-                      </div>
-
-                      <div>
-                        <div style={{ display: "flex", gap: 8, alignItems: "baseline", flexWrap: "wrap" }}>
-                          <a href={e.scryfall_uri} target="_blank" rel="noreferrer">
-                            <b>{e.name}</b>
-                          </a>
-                          <span className="badge">{e.set.toUpperCase()} #{e.collector_number}</span>
-                          <span className="badge">{e.rarity}</span>
-                        </div>
-                        <div className="small" style={{ marginTop: 6 }}>
-                          {e.type_line}
-                        </div>
-                      </div>
-
-                      <div style={{ display: "grid", gap: 10, justifyItems: "end" }}>
-                        <input
-                          className="input qty"
-                          type="number"
-                          min={1}
-                          max={99}
-                          value={e.qty}
-                          onChange={(ev) => setQty(e.id, Number(ev.target.value))}
-                          title="Quantità"
-                        />
-                        <button className="button danger" onClick={() => removeEntry(e.id)}>
-                          Rimuovi
-                        </button>
-                      </div>
-                    </div>
-                  ))}
+            <hr />
+
+            {isCubeLoading ? (
+              <div className="small">Caricamento cubo…</div>
+            ) : loadError ? (
+              <div className="banner" style={{ borderColor: "#5b2630", background: "rgba(59,11,20,0.35)" }}>
+                <span className="badge">Cubo non caricato</span> <span className="small">{loadError}</span>
+                <button className="button secondary" onClick={() => migrateAndOpen(activeId)}>
+                  Riprova
+                </button>
               </div>
-            </>
-          )}
-        </div>
+            ) : cube.length === 0 ? (
+              <div className="small">Nessuna carta nel cubo. Cerca → Anteprima → Aggiungi 🙂</div>
+            ) : (
+              <>
+                <div className="row" style={{ justifyContent: "space-between" }}>
+                  <div className="small muted">
+                    Tip: per spostare il cubo su un altro PC/browser, usa Export JSON + Import JSON.
+                  </div>
+                  <div className="row" style={{ gap: 6 }}>
+                    <button className="button secondary" onClick={() => setIsResyncOpen(true)} title="Ricontrolla tutte le carte su Scryfall e mostra cosa è cambiato">
+                      Aggiorna da Scryfall
+                    </button>
+                    <button className="button secondary" onClick={() => setShowStats((v) => !v)}>
+                      {showStats ? "Nascondi statistiche" : "Statistiche"}
+                    </button>
+                  </div>
+                </div>
 
-        <div className="card">
-          <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Backup & Export</h2>
-          <div className="row">
-            <button className="button" disabled={cube.length === 0} onClick={exportCsv}>
-              Export CSV
-            </button>
-            <button className="button secondary" disabled={cube.length === 0} onClick={exportJson}>
-              Export JSON (backup)
-            </button>
-            <label className="button secondary" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
-              Import JSON
-              <input type="file" accept=".json,application/json" onChange={onPickImportFile} style={{ display: "none" }} />
-            </label>
-          </div>
+                {showStats && (
+                  <div className="card" style={{ marginTop: 14 }}>
+                    <AnalyticsPanel entries={cube} />
+                  </div>
+                )}
 
-          <div className="row" style={{ marginTop: 10 }}>
-            <button className="button secondary" onClick={openRestore}>
-              Ripristina da backup locale
-            </button>
-            <button className="button danger" disabled={cube.length === 0} onClick={clearCube}>
-              Svuota cubo
-            </button>
-          </div>
+                <CubeToolbar settings={listView} knownTags={knownTags} shown={visibleCount} total={cube.length} onChange={setListView} />
 
-          <hr />
+                {selectedIds.size > 0 && (
+                  <BulkTagBar
+                    count={selectedIds.size}
+                    knownTags={knownTags}
+                    onAddTags={bulkAddTags}
+                    onRemoveTag={bulkRemoveTag}
+                    onSelectVisible={() => setSelectedIds(new Set(visible.map((e) => e.id)))}
+                    onClear={() => setSelectedIds(new Set())}
+                  />
+                )}
 
-          <div className="small">
-            <b>Multibrowser:</b>
-            <ul>
-              <li>Ogni browser ha i propri dati locali.</li>
-              <li>Per usare il cubo su un altro browser/PC: <b>Export JSON</b>, poi su quell'altro browser fai <b>Import JSON</b>.</li>
-            </ul>
+                {visibleCount === 0 ? (
+                  <div className="small" style={{ marginTop: 14 }}>Nessuna carta corrisponde ai filtri.</div>
+                ) : (
+                  <CubeList
+                    groups={groups}
+                    collapsed={listView.collapsed}
+                    onToggle={toggleSection}
+                    renderEntry={(e) => (
+                      <CubeEntryRow
+                        key={e.id}
+                        entry={e}
+                        currency={currency}
+                        selected={selectedIds.has(e.id)}
+                        onToggleSelect={() => toggleSelected(e.id)}
+                        onQty={(q) => setQty(e.id, q)}
+                        onRemove={() => removeEntry(e.id)}
+                        onChangePrinting={() => setPrintingFor(e)}
+                        onEditMeta={() => setMetaFor(e)}
+                        onTagClick={filterByTag}
+                      />
+                    )}
+                  />
+                )}
+              </>
+            )}
           </div>
 
-          <div className="footer">
-            <span>Tip: evita Incognito per non perdere dati alla chiusura.</span>
+          <div className="card">
+            <CubeLibraryPanel library={library} onChange={changeLibrary} onError={setError} />
+
+            <hr />
+
+            <HistoryPanel
+              history={history}
+              canUndo={cubeReady && canUndo(history)}
+              canRedo={cubeReady && canRedo(history)}
+              onUndo={() => editHistory(undo)}
+              onRedo={() => editHistory(redo)}
+              onJump={(i) => editHistory((h) => jumpTo(h, i))}
+            />
+
+            <hr />
+
+            <PricePanel
+              entries={cube}
+              currency={currency}
+              budget={budget}
+              onCurrencyChange={(c) => setPricePrefs((p) => ({ ...p, currency: c }))}
+              onBudgetChange={(b) => setLibrary(updateCubeInfo(library, activeId, { budget: b }))}
+              onPricesFetched={applyFetchedPrices}
+              onError={setError}
+              onJumpToEntry={jumpToCard}
+            />
+
+            <hr />
+
+            <RulesPanel
+              entries={cube}
+              rules={rules}
+              onRulesChange={(r) => setLibrary(updateCubeInfo(library, activeId, { rules: r }))}
+              onJumpToEntry={jumpToCard}
+            />
+
+            <hr />
+
+            <DataSourcePanel
+              bulkMeta={bulkMeta}
+              bulkLoaded={bulk !== null}
+              prefs={dataPrefs}
+              source={dataSource}
+              isOnline={isOnline}
+              onBulkChange={(index) => {
+                setBulk(index);
+                if (!index) setDataPrefs((p) => ({ ...p, offlineOnly: false }));
+                setInfo(index ? `Dati offline pronti: ${index.meta.count} carte da ${index.meta.file_name}.` : "Dati offline eliminati.");
+              }}
+              onPrefsChange={setDataPrefs}
+              onError={setError}
+            />
+
+            <hr />
+
+            <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Backup & Export</h2>
+            <div className="row">
+              <button className="button" disabled={cube.length === 0} onClick={exportCsv}>
+                Export CSV
+              </button>
+              <button className="button secondary" disabled={cube.length === 0} onClick={exportJson}>
+                Export JSON (backup)
+              </button>
+              <label className="button secondary" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                Import JSON/CSV
+                <input ref={importInputRef} type="file" accept=".json,application/json,.csv,text/csv" onChange={onPickImportFile} style={{ display: "none" }} />
+              </label>
+              <button className="button secondary" disabled={cube.length === 0} onClick={shareLink} title="Copia un link che apre questo cubo in sola lettura">
+                Condividi link
+              </button>
+            </div>
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <select className="input" style={{ flex: 1, width: "auto" }} value={exportFormat}
+                onChange={(e) => {
+                  setExportFormat(e.target.value as ExportFormat);
+                  setExportWarnings([]);
+                }} aria-label="Formato di export">
+                {EXPORT_FORMATS.map((f) => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              <button className="button secondary" disabled={cube.length === 0} onClick={exportAs}>
+                Esporta
+              </button>
+            </div>
+            {exportWarnings.length > 0 && (
+              <div className="banner" style={{ borderColor: "#5b4a26", background: "rgba(59,44,11,0.35)" }}>
+                <span className="badge">Attenzione</span>
+                <ul className="small reportList">
+                  {exportWarnings.map((w) => <li key={w}>{w}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <button className="button secondary" disabled={!cubeReady} onClick={() => setIsBackupsOpen(true)} title="Snapshot automatici e manuali, con differenze e ripristino parziale">
+                Backup e ripristino
+              </button>
+              <button className="button danger" disabled={!cubeReady || cube.length === 0} onClick={clearCube}>
+                Svuota cubo
+              </button>
+            </div>
+
+            <hr />
+
+            <div className="small">
+              <b>Multibrowser:</b>
+              <ul>
+                <li>Ogni browser ha i propri dati locali.</li>
+                <li>Per usare il cubo su un altro browser/PC: <b>Export JSON</b>, poi su quell'altro browser fai <b>Import JSON</b>.</li>
+              </ul>
+            </div>
+
+            <div className="footer">
+              <span>Tip: evita Incognito per non perdere dati alla chiusura.</span>
+            </div>
           </div>
         </div>
+      )}
+
+      {/* Kept mounted so an ongoing draft/sealed event survives tab switches */}
+      <div hidden={view !== "draft"}>
+        <DraftView cube={cube} />
       </div>
+      <div hidden={view !== "sealed"}>
+        <SealedView cube={cube} />
+      </div>
+      {view === "print" && <PrintView cube={cube} />}
 
       <div className="footer">
         <span>Dati carte: Scryfall</span>
@@ -439,6 +1161,46 @@ export default function App() {
         <a href="./README.html" target="_blank" rel="noreferrer">Doc implementatore</a>
       </div>
 
+      {isPaletteOpen && <CommandPalette commands={commands} onClose={() => setIsPaletteOpen(false)} />}
+      {isPasteOpen && <PasteImportModal onClose={() => setIsPasteOpen(false)} onImport={importPasted} />}
+      {metaFor && <TagEditorModal entry={metaFor} knownTags={knownTags} onSave={saveEntryMeta} onClose={() => setMetaFor(null)} />}
+      {isSearchOpen && <AdvancedSearchModal cube={cube} onClose={() => setIsSearchOpen(false)} onAdd={addSearchResults} />}
+
+      {conflict && (
+        <SyncConflictModal
+          base={conflict.base}
+          local={cube}
+          remote={conflict.remote}
+          remoteAt={conflict.meta?.updated_at}
+          refreshed={conflict.refreshed}
+          onResolve={resolveConflict}
+        />
+      )}
+
+      {isBackupsOpen && (
+        <BackupManager
+          cubeId={activeId}
+          cubeName={activeCubeInfo(library).name}
+          cube={cube}
+          onRestore={restoreFromBackup}
+          onClose={() => setIsBackupsOpen(false)}
+        />
+      )}
+
+      {importPreview && (
+        <ImportPreviewModal
+          {...importPreview}
+          cube={cube}
+          onApply={(entries, label) => {
+            const notice = budgetNotice(entries);
+            if (applyCube(label, () => entries)) setInfo(`Import completato.${notice}`);
+          }}
+          onClose={() => setImportPreview(null)}
+        />
+      )}
+
+      {isResyncOpen && <ResyncModal cube={cube} onClose={() => setIsResyncOpen(false)} onApply={applyResyncUpdates} />}
+
       {/* Preview modal */}
       {pending && (
         <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Conferma aggiunta carta" onMouseDown={(e) => {
@@ -448,7 +1210,14 @@ export default function App() {
             <div className="modalHeader">
               <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
                 <div style={{ fontSize: 16 }}><b>{pending.card.name}</b></div>
-                <div className="small muted">{pending.card.type_line}</div>
+                {pendingFaces ? (
+                  <div className="small muted">
+                    Faccia {pendingFace + 1}/{pendingFaces.length}: <b>{pendingShown?.name}</b>
+                    {pendingShown?.mana_cost && <> {pendingShown.mana_cost}</>} — {pendingShown?.type_line}
+                  </div>
+                ) : (
+                  <div className="small muted">{pending.card.type_line}</div>
+                )}
               </div>
               <button className="button secondary" onClick={() => setPending(null)} aria-label="Chiudi anteprima">
                 Chiudi
@@ -457,8 +1226,8 @@ export default function App() {
 
             <div className="modalBody">
               <div className="previewImg">
-                {pending.image ? (
-                  <img src={pending.image} alt={pending.card.name} />
+                {pendingImage ? (
+                  <img src={pendingImage} alt={pendingShown?.name ?? pending.card.name} />
                 ) : (
                   <div style={{ padding: 14 }} className="small">Immagine non disponibile</div>
                 )}
@@ -468,11 +1237,20 @@ export default function App() {
                 <div className="row" style={{ justifyContent: "space-between" }}>
                   <span className="badge">{pending.card.set.toUpperCase()} #{pending.card.collector_number}</span>
                   <span className="badge">{pending.card.rarity}</span>
+                  {pendingPrice !== null && <span className="badge">{formatPrice(pendingPrice, currency)}</span>}
+                  {pendingFaces && (
+                    <button className="button secondary" onClick={() => setPendingFace((f) => (f + 1) % pendingFaces.length)} title="Mostra l'altra faccia">
+                      ⟲ Gira
+                    </button>
+                  )}
+                  <button className="button secondary" onClick={() => setShowPrints((v) => !v)}>
+                    {showPrints ? "Nascondi stampe" : "Scegli stampa"}
+                  </button>
                 </div>
 
                 <div style={{ marginTop: 10 }} className="small">
                   <b>Conferma aggiunta</b><br />
-                  Imposta la quantità (default 1) e premi “Aggiungi al cubo”.
+                  Imposta la quantità (default 1) e premi “Aggiungi al cubo”. Da tastiera: + / − cambiano la quantità, Invio aggiunge.
                 </div>
 
                 <div className="row" style={{ marginTop: 12 }}>
@@ -483,26 +1261,72 @@ export default function App() {
                     min={1}
                     max={99}
                     value={pendingQty}
+                    autoFocus
+                    onFocus={(e) => e.target.select()}
                     onChange={(e) => setPendingQty(Number(e.target.value))}
                   />
                   <a className="small" href={pending.card.scryfall_uri} target="_blank" rel="noreferrer" style={{ marginLeft: "auto" }}>
                     Apri su Scryfall
                   </a>
                 </div>
+
+                {pendingBudgetWarning && (
+                  <div className="small overBudget" style={{ marginTop: 10 }}>
+                    {pendingBudgetWarning}
+                  </div>
+                )}
+                {pendingRuleWarnings.length > 0 && (
+                  <div className="small overBudget" style={{ marginTop: 10 }}>
+                    Questa aggiunta viola le regole del cubo:
+                    <ul className="reportList">
+                      {pendingRuleWarnings.map((v) => <li key={v.key}>{v.message}</li>)}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
 
+            {showPrints && (
+              <div className="modalSection">
+                <PrintingGrid name={pending.card.name} selectedId={pending.card.id} onPick={pickPendingPrinting} />
+              </div>
+            )}
+
             <div className="modalActions">
               <button className="button secondary" onClick={() => setPending(null)}>
                 Annulla
               </button>
-              <button className="button" onClick={confirmAddPending}>
+              <button className="button" disabled={!cubeReady} onClick={confirmAddPending}>
                 Aggiungi al cubo
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Change printing of an existing entry */}
+      {printingFor && (
+        <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Cambia stampa" onMouseDown={(e) => {
+          if (e.target === e.currentTarget) setPrintingFor(null);
+        }}>
+          <div className="modal" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="modalHeader">
+              <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                <div style={{ fontSize: 16 }}><b>{printingFor.name}</b></div>
+                <div className="small muted">
+                  Stampa attuale: {printingFor.set.toUpperCase()} #{printingFor.collector_number} • qty {printingFor.qty} (invariata)
+                </div>
+              </div>
+              <button className="button secondary" onClick={() => setPrintingFor(null)}>
+                Chiudi
+              </button>
+            </div>
+            <div className="modalSection">
+              <PrintingGrid name={printingFor.name} selectedId={printingFor.id} onPick={changeEntryPrinting} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getThumb, searchCards, type ScryfallCard } from "../lib/scryfall";
+import { isAbortError } from "../lib/scryfallClient";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  cube: CubeEntry[];
+  onClose: () => void;
+  onAdd: (cards: ScryfallCard[]) => boolean; // false when the cube refused the edit
+};
+
+const EXAMPLE = 'r:common c:u o:"draw a card" cmc<3';
+
+export default function AdvancedSearchModal({ cube, onClose, onAdd }: Props) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ScryfallCard[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextPage, setNextPage] = useState<string | undefined>();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Map<string, ScryfallCard>>(new Map());
+  const abortRef = useRef<AbortController | null>(null); // the search in flight, cancelled when superseded
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const inCube = useMemo(() => {
+    const ids = new Set<string>();
+    const names = new Set<string>();
+    for (const e of cube) {
+      ids.add(e.id);
+      names.add(e.name);
+    }
+    return (c: ScryfallCard) => ids.has(c.id) || names.has(c.name);
+  }, [cube]);
+
+  async function run(more: boolean) {
+    const q = query.trim();
+    if (!q || busy || (more && !nextPage)) return;
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setBusy(true);
+    setError(null);
+    try {
+      const page = await searchCards(q, more ? { nextPage, signal: ctrl.signal } : { signal: ctrl.signal });
+      if (abortRef.current !== ctrl) return;
+      setResults((prev) => (more ? [...prev, ...page.data] : page.data));
+      setTotal(page.total_cards);
+      setNextPage(page.has_more ? page.next_page : undefined);
+      if (!more) setSelected(new Map());
+    } catch (e: any) {
+      if (abortRef.current === ctrl && !isAbortError(e)) setError(e?.message ?? "Errore ricerca");
+    } finally {
+      if (abortRef.current === ctrl) setBusy(false);
+    }
+  }
+
+  // A new query starts over: the loaded pages belong to the old one
+  function changeQuery(q: string) {
+    setQuery(q);
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setBusy(false);
+    setNextPage(undefined);
+  }
+
+  function toggle(c: ScryfallCard) {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(c.id)) next.delete(c.id);
+      else next.set(c.id, c);
+      return next;
+    });
+  }
+
+  function selectAllNew() {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      for (const c of results) if (!inCube(c)) next.set(c.id, c);
+      return next;
+    });
+  }
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Ricerca avanzata" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal wideModal" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Ricerca avanzata (sintassi Scryfall)</b></div>
+          <button className="button secondary" onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 10 }}>
+          <div className="row">
+            <input
+              className="input"
+              style={{ flex: 1, minWidth: 260, width: "auto" }}
+              value={query}
+              placeholder={`es. ${EXAMPLE}`}
+              onChange={(e) => changeQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !busy) run(false);
+              }}
+              autoFocus
+            />
+            <button className="button" disabled={busy || query.trim().length === 0} onClick={() => run(false)}>
+              {busy ? "Cerco…" : "Cerca"}
+            </button>
+          </div>
+          <div className="small muted">
+            Sintassi completa: <a href="https://scryfall.com/docs/syntax" target="_blank" rel="noreferrer">scryfall.com/docs/syntax</a>
+            {total !== null && <> • {total} risultati, {results.length} caricati</>}
+          </div>
+          {error && <div className="small" style={{ color: "#fca5a5" }}>{error}</div>}
+        </div>
+
+        {results.length > 0 && (
+          <div className="modalSection">
+            <div className="printGrid">
+              {results.map((c) => {
+                const thumb = getThumb(c);
+                const owned = inCube(c);
+                const isSel = selected.has(c.id);
+                return (
+                  <button
+                    key={c.id}
+                    className={`printItem${isSel ? " selected" : ""}${owned ? " owned" : ""}`}
+                    onClick={() => toggle(c)}
+                    title={owned ? `${c.name} — già nel cubo` : c.name}
+                    aria-pressed={isSel}
+                  >
+                    {thumb ? <img src={thumb} alt={c.name} loading="lazy" /> : <span className="small">{c.name}</span>}
+                    <span className="small">{owned ? "✓ nel cubo" : c.name}</span>
+                  </button>
+                );
+              })}
+            </div>
+            {nextPage && (
+              <div className="row" style={{ justifyContent: "center", marginTop: 12 }}>
+                <button className="button secondary" disabled={busy} onClick={() => run(true)}>
+                  {busy ? "Carico…" : "Carica altri"}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        {total === 0 && <div className="modalSection small">Nessuna carta trovata.</div>}
+
+        <div className="modalActions">
+          <button className="button secondary" disabled={results.length === 0} onClick={selectAllNew}>
+            Seleziona tutti i nuovi
+          </button>
+          <button className="button secondary" disabled={selected.size === 0} onClick={() => setSelected(new Map())}>
+            Deseleziona
+          </button>
+          <button
+            className="button"
+            disabled={selected.size === 0}
+            onClick={() => {
+              if (!onAdd(Array.from(selected.values()))) {
+                setError("Il cubo non è ancora caricato: le carte selezionate non sono state aggiunte.");
+                return;
+              }
+              setSelected(new Map());
+            }}
+          >
+            Aggiungi selezionate ({selected.size})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
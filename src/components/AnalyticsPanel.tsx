@@ -0,0 +1,166 @@
+import { useMemo } from "react";
+import {
+  BUCKET_LABELS,
+  COLOR_BUCKETS,
+  CURVE_MAX,
+  RARITIES,
+  computeStats
+} from "../lib/analytics";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  entries: CubeEntry[];
+};
+
+function pct(n: number, total: number) {
+  return total > 0 ? `${Math.round((n / total) * 100)}%` : "—";
+}
+
+function Bar({ value, max, color }: { value: number; max: number; color?: string }) {
+  const w = max > 0 ? (value / max) * 100 : 0;
+  return (
+    <div className="bar">
+      <div className="barFill" style={{ width: `${w}%`, background: color }} />
+    </div>
+  );
+}
+
+const BUCKET_COLORS: Record<string, string> = {
+  W: "#f5f0dc",
+  U: "#3b82f6",
+  B: "#6b7280",
+  R: "#ef4444",
+  G: "#22c55e",
+  M: "#eab308",
+  C: "#94a3b8"
+};
+
+export default function AnalyticsPanel({ entries }: Props) {
+  const stats = useMemo(() => computeStats(entries), [entries]);
+  const maxBucket = Math.max(0, ...COLOR_BUCKETS.map((b) => stats.byBucket[b]));
+  const maxGuild = Math.max(0, ...stats.byGuild.map((g) => g.count));
+  const curveCols = Array.from({ length: CURVE_MAX + 1 }, (_, i) => (i === CURVE_MAX ? `${CURVE_MAX}+` : String(i)));
+  const curveTotals = curveCols.map((_, i) => COLOR_BUCKETS.reduce((acc, b) => acc + stats.curve[b][i], 0));
+  const rarityKeys = [...RARITIES, ...Object.keys(stats.rarity).filter((r) => !(RARITIES as readonly string[]).includes(r))];
+
+  if (stats.total === 0) return <div className="small">Nessuna carta da analizzare.</div>;
+
+  return (
+    <div className="analytics">
+      <section>
+        <h3>Colori</h3>
+        <table className="statTable">
+          <tbody>
+            {COLOR_BUCKETS.map((b) => (
+              <tr key={b}>
+                <td>{BUCKET_LABELS[b]}</td>
+                <td className="num">{stats.byBucket[b]}</td>
+                <td className="num muted">{pct(stats.byBucket[b], stats.total)}</td>
+                <td style={{ width: "45%" }}><Bar value={stats.byBucket[b]} max={maxBucket} color={BUCKET_COLORS[b]} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h3>Gilde / multicolore</h3>
+        {stats.byGuild.length === 0 ? (
+          <div className="small muted">Nessuna carta multicolore.</div>
+        ) : (
+          <table className="statTable">
+            <tbody>
+              {stats.byGuild.map((g) => (
+                <tr key={g.key}>
+                  <td>{g.label} {g.key !== "3+" && <span className="muted small">({g.key})</span>}</td>
+                  <td className="num">{g.count}</td>
+                  <td style={{ width: "45%" }}><Bar value={g.count} max={maxGuild} color={BUCKET_COLORS.M} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="wide">
+        <h3>Curva di mana per colore <span className="small muted">(non-terre)</span></h3>
+        <table className="statTable">
+          <thead>
+            <tr>
+              <th />
+              {curveCols.map((c) => <th key={c} className="num">{c}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {COLOR_BUCKETS.map((b) => (
+              <tr key={b}>
+                <td>{BUCKET_LABELS[b]}</td>
+                {stats.curve[b].map((n, i) => (
+                  <td key={i} className={`num${n === 0 ? " muted" : ""}`}>{n}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="totalRow">
+              <td>Totale</td>
+              {curveTotals.map((n, i) => <td key={i} className="num">{n}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h3>Creature / non-creature</h3>
+        <table className="statTable">
+          <thead>
+            <tr>
+              <th />
+              <th className="num">Creature</th>
+              <th className="num">Altre</th>
+              <th className="num">% creature</th>
+            </tr>
+          </thead>
+          <tbody>
+            {COLOR_BUCKETS.map((b) => {
+              const c = stats.creatures[b];
+              return (
+                <tr key={b}>
+                  <td>{BUCKET_LABELS[b]}</td>
+                  <td className="num">{c.creature}</td>
+                  <td className="num">{c.noncreature}</td>
+                  <td className="num muted">{pct(c.creature, c.creature + c.noncreature)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h3>Rarità</h3>
+        <table className="statTable">
+          <tbody>
+            {rarityKeys.map((r) => (
+              <tr key={r}>
+                <td>{r}</td>
+                <td className="num">{stats.rarity[r] ?? 0}</td>
+                <td className="num muted">{pct(stats.rarity[r] ?? 0, stats.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 style={{ marginTop: 14 }}>Terre e fixing</h3>
+        <table className="statTable">
+          <tbody>
+            <tr><td>Terre totali</td><td className="num">{stats.lands.total}</td></tr>
+            <tr><td>Base</td><td className="num">{stats.lands.basic}</td></tr>
+            <tr><td>Non base</td><td className="num">{stats.lands.nonbasic}</td></tr>
+            <tr><td>di cui MDFC incantesimo // terra</td><td className="num">{stats.lands.mdfc}</td></tr>
+            <tr><td>Terre di fixing (2+ colori)</td><td className="num">{stats.lands.fixing}</td></tr>
+            <tr><td>Fixing non-terra (rocce, ecc.)</td><td className="num">{stats.lands.nonlandFixing}</td></tr>
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState, type ChangeEvent, type ReactNode } from "react";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  listSnapshots,
+  loadSnapshot,
+  parseSnapshotJson,
+  restorePartial,
+  snapshotToJson,
+  updateSnapshot,
+  type SnapshotInfo
+} from "../lib/backup";
+import { downloadTextFile } from "../lib/csv";
+import { fmtMegabytes, storageUsage, type StorageUsage } from "../lib/dataStore";
+import type { CubeEntry } from "../lib/storage";
+import { diffEntries, entryKey } from "../lib/sync";
+
+type Props = {
+  cubeId: string;
+  cubeName: string;
+  cube: CubeEntry[];
+  onRestore: (entries: CubeEntry[], label: string) => void;
+  onClose: () => void;
+};
+
+function fmtDate(ts: number) {
+  return new Date(ts).toLocaleString();
+}
+
+function snapshotLabel(s: SnapshotInfo) {
+  return s.name ?? (s.kind === "auto" ? "Automatico" : "Snapshot");
+}
+
+function fileSlug(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "cubo";
+}
+
+function DiffRow({ entry, picked, onToggle, children }: { entry: CubeEntry; picked: Set<string>; onToggle: (key: string) => void; children: ReactNode }) {
+  const key = entryKey(entry);
+  return (
+    <li>
+      <label className="resyncItem">
+        <input type="checkbox" checked={picked.has(key)} onChange={() => onToggle(key)} />
+        <span className="small">{children}</span>
+      </label>
+    </li>
+  );
+}
+
+/** Snapshots of the active cube: create, pin, export/import, and restore all or part of one. */
+export default function BackupManager({ cubeId, cubeName, cube, onRestore, onClose }: Props) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [selected, setSelected] = useState<SnapshotInfo | null>(null);
+  const [entries, setEntries] = useState<CubeEntry[] | null>(null);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState("");
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    try {
+      setSnapshots(await listSnapshots(cubeId));
+      setUsage(await storageUsage());
+    } catch (e: any) {
+      setError(e?.message ?? "Errore lettura backup");
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, [cubeId]);
+
+  useEffect(() => {
+    setEntries(null);
+    setPicked(new Set());
+    if (!selected) return;
+    let alive = true;
+    loadSnapshot(cubeId, selected.id)
+      .then((list) => alive && setEntries(list))
+      .catch((e: any) => alive && setError(e?.message ?? "Errore lettura backup"));
+    return () => {
+      alive = false;
+    };
+  }, [cubeId, selected?.id]);
+
+  // What restoring the snapshot would change in the current cube
+  const diff = useMemo(() => (entries ? diffEntries(cube, entries) : null), [cube, entries]);
+  const diffSize = diff ? diff.added.length + diff.removed.length + diff.changed.length : 0;
+
+  async function run(fn: () => Promise<unknown>) {
+    setError(null);
+    try {
+      await fn();
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message ?? "Errore backup");
+    }
+  }
+
+  function takeSnapshot() {
+    run(async () => {
+      await createSnapshot(cubeId, cube, "manual", newName);
+      setNewName("");
+    });
+  }
+
+  function togglePin(s: SnapshotInfo) {
+    run(() => updateSnapshot(cubeId, s.id, { pinned: !s.pinned }));
+  }
+
+  function remove(s: SnapshotInfo) {
+    if (!confirm(`Eliminare il backup "${snapshotLabel(s)}" del ${fmtDate(s.created_at)}?`)) return;
+    if (selected?.id === s.id) setSelected(null);
+    run(() => deleteSnapshot(cubeId, s.id));
+  }
+
+  function exportSnapshot(s: SnapshotInfo) {
+    run(async () => {
+      const list = await loadSnapshot(cubeId, s.id);
+      const stamp = new Date(s.created_at).toISOString().slice(0, 16).replace(/[:T]/g, "-");
+      downloadTextFile(`${fileSlug(cubeName)}-backup-${stamp}.json`, snapshotToJson(s, list, cubeName), "application/json;charset=utf-8");
+    });
+  }
+
+  function importSnapshot(ev: ChangeEvent<HTMLInputElement>) {
+    const file = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!file) return;
+    run(async () => {
+      const parsed = parseSnapshotJson(await file.text());
+      await createSnapshot(cubeId, parsed.entries, "manual", parsed.name ?? file.name.replace(/\.json$/i, ""));
+    });
+  }
+
+  function togglePicked(key: string) {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  function restoreAll() {
+    if (!selected || !entries) return;
+    onRestore(entries, `Ripristinato backup "${snapshotLabel(selected)}" (${fmtDate(selected.created_at)})`);
+    onClose();
+  }
+
+  function restorePicked() {
+    if (!selected || !entries || picked.size === 0) return;
+    onRestore(restorePartial(cube, entries, picked), `Ripristinate ${picked.size} carte dal backup del ${fmtDate(selected.created_at)}`);
+    onClose();
+  }
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Backup del cubo" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal wideModal" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Backup di “{cubeName}”</b></div>
+          <button className="button secondary" onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          {error && <div className="small" style={{ color: "#fca5a5" }}>{error}</div>}
+
+          <div className="row">
+            <input
+              className="input"
+              style={{ flex: 1, minWidth: 180 }}
+              value={newName}
+              placeholder="Nome dello snapshot (es. Prima del draft di venerdì)"
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") takeSnapshot();
+              }}
+              aria-label="Nome dello snapshot"
+            />
+            <button className="button" onClick={takeSnapshot}>
+              Crea snapshot
+            </button>
+            <label className="button secondary" style={{ display: "inline-flex", alignItems: "center" }}>
+              Importa snapshot
+              <input type="file" accept=".json,application/json" onChange={importSnapshot} style={{ display: "none" }} />
+            </label>
+          </div>
+          {usage && (
+            <div className="small muted">
+              Spazio usato dal sito: {fmtMegabytes(usage.usage)} su {fmtMegabytes(usage.quota)} disponibili.
+            </div>
+          )}
+
+          <div className="backupLayout">
+            <div>
+              {snapshots === null ? (
+                <div className="small">Carico i backup…</div>
+              ) : snapshots.length === 0 ? (
+                <div className="small">Nessun backup per questo cubo.</div>
+              ) : (
+                <ul className="resyncList">
+                  {snapshots.map((s) => (
+                    <li key={s.id}>
+                      <div className={`snapshotItem${selected?.id === s.id ? " selected" : ""}`}>
+                        <button className="linkButton" onClick={() => setSelected(s)} title="Mostra le differenze con il cubo attuale">
+                          <b>{snapshotLabel(s)}</b>
+                          <div className="small muted">{fmtDate(s.created_at)} • {s.count} carte, {s.rows} righe</div>
+                        </button>
+                        <div className="row" style={{ gap: 4 }}>
+                          <button
+                            className="button secondary"
+                            onClick={() => togglePin(s)}
+                            title={s.pinned ? "Fissato: la rotazione non lo elimina. Clicca per sbloccare." : "Fissa: la rotazione automatica non lo eliminerà"}
+                            aria-pressed={s.pinned}
+                          >
+                            {s.pinned ? "📌 Fissato" : "Fissa"}
+                          </button>
+                          <button className="button secondary" onClick={() => exportSnapshot(s)} title="Scarica come file JSON">
+                            Esporta
+                          </button>
+                          <button className="button danger" onClick={() => remove(s)} title="Elimina il backup">
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              {!selected ? (
+                <div className="small muted">Seleziona un backup per vedere cosa cambierebbe ripristinandolo.</div>
+              ) : !diff ? (
+                <div className="small">Carico il backup…</div>
+              ) : diffSize === 0 ? (
+                <div className="small">Il backup è identico al cubo attuale.</div>
+              ) : (
+                <>
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <b className="small">Differenze con il cubo attuale ({diffSize})</b>
+                    <div className="row" style={{ gap: 6 }}>
+                      <button
+                        className="button secondary"
+                        onClick={() => setPicked(new Set([...diff.added, ...diff.removed, ...diff.changed.map((c) => c.after)].map(entryKey)))}
+                      >
+                        Seleziona tutte
+                      </button>
+                      <button className="button secondary" onClick={() => setPicked(new Set())}>
+                        Nessuna
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="resyncList">
+                    {diff.added.map((e) => (
+                      <DiffRow key={`a-${entryKey(e)}`} entry={e} picked={picked} onToggle={togglePicked}>
+                        <span className="badge">+</span> <b>{e.name}</b> ×{e.qty} <span className="muted">— solo nel backup, verrà aggiunta</span>
+                      </DiffRow>
+                    ))}
+                    {diff.removed.map((e) => (
+                      <DiffRow key={`r-${entryKey(e)}`} entry={e} picked={picked} onToggle={togglePicked}>
+                        <span className="badge">−</span> <b>{e.name}</b> ×{e.qty} <span className="muted">— non c'è nel backup, verrà tolta</span>
+                      </DiffRow>
+                    ))}
+                    {diff.changed.map(({ before, after }) => (
+                      <DiffRow key={`c-${entryKey(after)}`} entry={after} picked={picked} onToggle={togglePicked}>
+                        <span className="badge">≠</span> <b>{after.name}</b>{" "}
+                        {before.qty !== after.qty ? <>qty {before.qty} → {after.qty}</> : <span className="muted">tag, note o dati della carta diversi</span>}
+                      </DiffRow>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="modalActions">
+          <button className="button secondary" onClick={onClose}>
+            Annulla
+          </button>
+          <button className="button secondary" disabled={!entries || picked.size === 0} onClick={restorePicked}>
+            Ripristina selezionate {picked.size > 0 ? `(${picked.size})` : ""}
+          </button>
+          <button className="button" disabled={!entries || diffSize === 0} onClick={restoreAll}>
+            Ripristina tutto
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import TagInput from "./TagInput";
+
+type Props = {
+  count: number;
+  knownTags: string[];
+  onAddTags: (tags: string[]) => void;
+  onRemoveTag: (tag: string) => void;
+  onSelectVisible: () => void;
+  onClear: () => void;
+};
+
+/** Actions applied to every selected entry of the cube list. */
+export default function BulkTagBar({ count, knownTags, onAddTags, onRemoveTag, onSelectVisible, onClear }: Props) {
+  const [toRemove, setToRemove] = useState("");
+
+  return (
+    <div className="banner row" style={{ gap: 8 }}>
+      <span className="badge">{count} selezionate</span>
+      <TagInput suggestions={knownTags} onAdd={onAddTags} placeholder="Tag da aggiungere…" />
+      {knownTags.length > 0 && (
+        <>
+          <select className="input" style={{ width: "auto" }} value={toRemove} onChange={(e) => setToRemove(e.target.value)} aria-label="Tag da rimuovere">
+            <option value="">Rimuovi tag…</option>
+            {knownTags.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <button className="button secondary" disabled={!toRemove} onClick={() => {
+            onRemoveTag(toRemove);
+            setToRemove("");
+          }}>
+            Rimuovi
+          </button>
+        </>
+      )}
+      <button className="button secondary" style={{ marginLeft: "auto" }} onClick={onSelectVisible}>
+        Seleziona visibili
+      </button>
+      <button className="button secondary" onClick={onClear}>
+        Deseleziona
+      </button>
+    </div>
+  );
+}
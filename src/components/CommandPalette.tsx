@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+
+export type Command = {
+  id: string;
+  label: string;
+  hint?: string;
+  run: () => void;
+};
+
+type Props = {
+  commands: Command[];
+  onClose: () => void;
+};
+
+const MAX_SHOWN = 50;
+
+/** Ctrl+K palette: type to filter, arrows to move, Enter to run. */
+export default function CommandPalette({ commands, onClose }: Props) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const shown = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands
+      .filter((c) => {
+        const text = `${c.label} ${c.hint ?? ""}`.toLowerCase();
+        return words.every((w) => text.includes(w));
+      })
+      .slice(0, MAX_SHOWN);
+  }, [commands, query]);
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  function run(c: Command | undefined) {
+    if (!c) return;
+    onClose();
+    c.run();
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => (shown.length ? (i + 1) % shown.length : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (shown.length ? (i - 1 + shown.length) % shown.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(shown[active]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div className="modalOverlay paletteOverlay" role="dialog" aria-modal="true" aria-label="Comandi" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal palette" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          className="input"
+          autoFocus
+          value={query}
+          placeholder="Cerca un comando o una carta del cubo…"
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-list"
+          aria-activedescendant={shown[active] ? `palette-${active}` : undefined}
+        />
+        <div className="suggest paletteList" id="palette-list" role="listbox" ref={listRef}>
+          {shown.length === 0 ? (
+            <div className="small muted" style={{ padding: "10px 12px" }}>Nessun comando trovato.</div>
+          ) : (
+            shown.map((c, i) => (
+              <button
+                key={c.id}
+                id={`palette-${i}`}
+                role="option"
+                aria-selected={i === active}
+                className={i === active ? "active" : undefined}
+                onMouseEnter={() => setActive(i)}
+                onClick={() => run(c)}
+              >
+                {c.label}
+                {c.hint && <span className="small muted"> — {c.hint}</span>}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { entryFaces, faceThumb } from "../lib/faces";
+import { formatPrice, unitPrice, type Currency } from "../lib/prices";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  entry: CubeEntry;
+  currency: Currency;
+  selected: boolean;
+  onToggleSelect: () => void;
+  onQty: (qty: number) => void;
+  onRemove: () => void;
+  onChangePrinting: () => void;
+  onEditMeta: () => void;
+  onTagClick: (tag: string) => void;
+};
+
+function priceTitle(e: CubeEntry, currency: Currency): string {
+  const foil = e.prices?.[`${currency}_foil`];
+  const parts = ["Prezzo unitario"];
+  if (foil !== undefined) parts.push(`foil ${formatPrice(foil, currency)}`);
+  if (e.prices_at) parts.push(`aggiornato ${new Date(e.prices_at).toLocaleDateString()}`);
+  return parts.join(" • ");
+}
+
+export default function CubeEntryRow({ entry: e, currency, selected, onToggleSelect, onQty, onRemove, onChangePrinting, onEditMeta, onTagClick }: Props) {
+  const price = unitPrice(e.prices, currency);
+  const faces = entryFaces(e);
+  const [face, setFace] = useState(0);
+  const shown = faces[face] ?? faces[0];
+  const thumb = faceThumb(e, face);
+
+  return (
+    <div className={`card item${selected ? " selected" : ""}`} id={`entry-${e.id}`}>
+      <div className="thumb" title={shown.name}>
+        {thumb ? <img src={thumb} alt={shown.name} loading="lazy" /> : <span className="small">no img</span>}
+        <input className="selectBox" type="checkbox" checked={selected} onChange={onToggleSelect} aria-label={`Seleziona ${e.name}`} />
+        {faces.length > 1 && (
+          <button className="flipButton" onClick={() => setFace((f) => (f + 1) % faces.length)} title="Mostra l'altra faccia" aria-label={`Gira ${e.name}`}>
+            ⟲
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div style={{ display: "flex", gap: 8, alignItems: "baseline", flexWrap: "wrap" }}>
+          <a href={e.scryfall_uri} target="_blank" rel="noreferrer">
+            <b>{e.name}</b>
+          </a>
+          <span className="badge">{e.set.toUpperCase()} #{e.collector_number}</span>
+          <span className="badge">{e.rarity}</span>
+          {price !== null && (
+            <span className="badge" title={priceTitle(e, currency)}>
+              {formatPrice(price, currency)}
+            </span>
+          )}
+        </div>
+        <div className="small" style={{ marginTop: 6 }}>
+          {faces.length > 1 ? (
+            <>
+              <span className="muted">{face + 1}/{faces.length}</span> <b>{shown.name}</b>
+              {shown.mana_cost && <> {shown.mana_cost}</>} — {shown.type_line}
+            </>
+          ) : (
+            e.type_line
+          )}
+        </div>
+        {(e.tags?.length ?? 0) > 0 && (
+          <div className="row chips" style={{ marginTop: 6 }}>
+            {e.tags!.map((t) => (
+              <button key={t} className="chip" onClick={() => onTagClick(t)} title="Filtra per questo tag">
+                {t}
+              </button>
+            ))}
+          </div>
+        )}
+        {e.notes && <div className="small muted notes" title={e.notes}>{e.notes}</div>}
+      </div>
+
+      <div style={{ display: "grid", gap: 10, justifyItems: "end" }}>
+        <input
+          className="input qty"
+          type="number"
+          min={1}
+          max={99}
+          value={e.qty}
+          onChange={(ev) => onQty(Number(ev.target.value))}
+          title="Quantità"
+        />
+        <button className="button secondary" onClick={onChangePrinting} title="Scegli un'altra stampa">
+          Stampa
+        </button>
+        <button className="button secondary" onClick={onEditMeta} title="Tag e note">
+          Tag/Note
+        </button>
+        <button className="button danger" onClick={onRemove}>
+          Rimuovi
+        </button>
+      </div>
+    </div>
+  );
+}
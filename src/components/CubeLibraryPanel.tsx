@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import {
+  activeCubeInfo,
+  cloneCube,
+  createCube,
+  deleteCube,
+  setActiveCube,
+  updateCubeInfo,
+  type CubeLibrary
+} from "../lib/library";
+
+type Props = {
+  library: CubeLibrary;
+  onChange: (next: CubeLibrary) => void;
+  onError: (msg: string) => void;
+};
+
+export default function CubeLibraryPanel({ library, onChange, onError }: Props) {
+  const active = activeCubeInfo(library);
+  const [name, setName] = useState(active.name);
+  const [description, setDescription] = useState(active.description);
+
+  // Reset the edit fields when the active cube changes
+  useEffect(() => {
+    setName(active.name);
+    setDescription(active.description);
+  }, [active.id, active.name, active.description]);
+
+  async function run(fn: () => CubeLibrary | Promise<CubeLibrary>) {
+    try {
+      onChange(await fn());
+    } catch (e: any) {
+      onError(e?.message ?? "Errore libreria cubi");
+    }
+  }
+
+  function onNew() {
+    const n = prompt("Nome del nuovo cubo:", "Nuovo cubo");
+    if (!n) return;
+    run(() => createCube(library, n));
+  }
+
+  function onClone() {
+    const n = prompt("Nome della copia:", `${active.name} (copia)`);
+    if (!n) return;
+    run(() => cloneCube(library, active.id, n));
+  }
+
+  function onDelete() {
+    if (!confirm(`Eliminare il cubo "${active.name}" e i suoi backup? L'operazione non è reversibile.`)) return;
+    run(() => deleteCube(library, active.id));
+  }
+
+  function commitInfo() {
+    if (name.trim() === active.name && description.trim() === active.description) return;
+    run(() => updateCubeInfo(library, active.id, { name, description }));
+  }
+
+  return (
+    <div>
+      <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Libreria cubi</h2>
+      <div className="row">
+        <select
+          className="input"
+          style={{ flex: 1, minWidth: 160, width: "auto" }}
+          value={active.id}
+          onChange={(e) => run(() => setActiveCube(library, e.target.value))}
+          aria-label="Cubo attivo"
+        >
+          {library.cubes.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+        <input
+          className="input"
+          value={name}
+          placeholder="Nome cubo"
+          aria-label="Nome cubo"
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitInfo}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitInfo();
+          }}
+        />
+        <textarea
+          className="input"
+          rows={2}
+          value={description}
+          placeholder="Descrizione (opzionale)"
+          aria-label="Descrizione cubo"
+          onChange={(e) => setDescription(e.target.value)}
+          onBlur={commitInfo}
+        />
+      </div>
+
+      <div className="row" style={{ marginTop: 10 }}>
+        <button className="button secondary" onClick={onNew}>Nuovo</button>
+        <button className="button secondary" onClick={onClone}>Duplica</button>
+        <button className="button danger" disabled={library.cubes.length <= 1} onClick={onDelete}>Elimina</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { ReactNode } from "react";
+import type { EntryGroup } from "../lib/listView";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  groups: EntryGroup[];
+  collapsed: string[];
+  onToggle: (path: string) => void;
+  renderEntry: (e: CubeEntry) => ReactNode;
+};
+
+function Section({ group, depth, collapsed, onToggle, renderEntry }: Omit<Props, "groups"> & { group: EntryGroup; depth: number }) {
+  const isCollapsed = collapsed.includes(group.path);
+  return (
+    <section className={`listSection depth${depth}`}>
+      <button className="sectionHeader" onClick={() => onToggle(group.path)} aria-expanded={!isCollapsed}>
+        <span>{isCollapsed ? "▸" : "▾"} <b>{group.label}</b></span>
+        <span className="small muted">{group.count} carte • {group.entries.length} righe</span>
+      </button>
+      {!isCollapsed && (
+        group.children ? (
+          group.children.map((c) => (
+            <Section key={c.path} group={c} depth={depth + 1} collapsed={collapsed} onToggle={onToggle} renderEntry={renderEntry} />
+          ))
+        ) : (
+          <div className="grid">{group.entries.map(renderEntry)}</div>
+        )
+      )}
+    </section>
+  );
+}
+
+/** The cube grid, either flat or split into collapsible sections. */
+export default function CubeList({ groups, collapsed, onToggle, renderEntry }: Props) {
+  if (groups.length === 1 && groups[0].path === "") {
+    return <div className="grid">{groups[0].entries.map(renderEntry)}</div>;
+  }
+  return (
+    <div>
+      {groups.map((g) => (
+        <Section key={g.path} group={g} depth={0} collapsed={collapsed} onToggle={onToggle} renderEntry={renderEntry} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { BUCKET_LABELS, CARD_TYPES, COLOR_BUCKETS, RARITIES } from "../lib/analytics";
+import { DEFAULT_LIST_VIEW, type GroupKey, type ListFilters, type ListViewSettings, type SortKey } from "../lib/listView";
+
+type Props = {
+  settings: ListViewSettings;
+  knownTags: string[];
+  shown: number;
+  total: number;
+  onChange: (next: ListViewSettings) => void;
+};
+
+const SORTS: Array<{ id: SortKey; label: string }> = [
+  { id: "name", label: "Nome" },
+  { id: "cmc", label: "CMC" },
+  { id: "color", label: "Colore" },
+  { id: "set", label: "Set" },
+  { id: "qty", label: "Qty" }
+];
+
+const GROUPS: Array<{ id: GroupKey; label: string }> = [
+  { id: "none", label: "Nessuno" },
+  { id: "color", label: "Colore" },
+  { id: "type", label: "Tipo" },
+  { id: "rarity", label: "Rarità" },
+  { id: "cmc", label: "CMC" }
+];
+
+function toggle<T>(list: T[], v: T): T[] {
+  return list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+}
+
+function numOrNull(v: string): number | null {
+  if (v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export default function CubeToolbar({ settings, knownTags, shown, total, onChange }: Props) {
+  const f = settings.filters;
+
+  function setFilters(patch: Partial<ListFilters>) {
+    onChange({ ...settings, filters: { ...f, ...patch } });
+  }
+
+  return (
+    <div className="toolbar">
+      <div className="row">
+        <input
+          className="input"
+          style={{ flex: 1, minWidth: 200, width: "auto" }}
+          value={f.text}
+          placeholder="Filtra per nome o tipo…"
+          onChange={(e) => setFilters({ text: e.target.value })}
+        />
+        <label className="small">CMC</label>
+        <input className="input qty" type="number" min={0} placeholder="min" value={f.cmcMin ?? ""}
+          onChange={(e) => setFilters({ cmcMin: numOrNull(e.target.value) })} aria-label="CMC minimo" />
+        <input className="input qty" type="number" min={0} placeholder="max" value={f.cmcMax ?? ""}
+          onChange={(e) => setFilters({ cmcMax: numOrNull(e.target.value) })} aria-label="CMC massimo" />
+      </div>
+
+      <div className="row chips">
+        {COLOR_BUCKETS.map((b) => (
+          <button key={b} className={`chip${f.colors.includes(b) ? " on" : ""}`} onClick={() => setFilters({ colors: toggle(f.colors, b) })}>
+            {BUCKET_LABELS[b]}
+          </button>
+        ))}
+        <span className="chipSep" />
+        {RARITIES.map((r) => (
+          <button key={r} className={`chip${f.rarities.includes(r) ? " on" : ""}`} onClick={() => setFilters({ rarities: toggle(f.rarities, r) })}>
+            {r}
+          </button>
+        ))}
+      </div>
+
+      <div className="row chips">
+        {CARD_TYPES.map((t) => (
+          <button key={t} className={`chip${f.types.includes(t) ? " on" : ""}`} onClick={() => setFilters({ types: toggle(f.types, t) })}>
+            {t}
+          </button>
+        ))}
+      </div>
+
+      {knownTags.length > 0 && (
+        <div className="row chips">
+          <span className="small muted">Tag:</span>
+          {knownTags.map((t) => (
+            <button key={t} className={`chip${f.tags.includes(t) ? " on" : ""}`} onClick={() => setFilters({ tags: toggle(f.tags, t) })}>
+              #{t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="row">
+        <label className="small">Ordina</label>
+        <select className="input" style={{ width: "auto" }} value={settings.sort}
+          onChange={(e) => onChange({ ...settings, sort: e.target.value as SortKey })}>
+          {SORTS.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <button className="button secondary" onClick={() => onChange({ ...settings, dir: settings.dir === "asc" ? "desc" : "asc" })}
+          title="Inverti ordine">
+          {settings.dir === "asc" ? "↑" : "↓"}
+        </button>
+        <label className="small">Raggruppa</label>
+        <select className="input" style={{ width: "auto" }} value={settings.group}
+          onChange={(e) => onChange({ ...settings, group: e.target.value as GroupKey })}>
+          {GROUPS.map((g) => <option key={g.id} value={g.id}>{g.label}</option>)}
+        </select>
+        {settings.group !== "none" && (
+          <>
+            <label className="small">poi</label>
+            <select className="input" style={{ width: "auto" }} value={settings.subgroup}
+              onChange={(e) => onChange({ ...settings, subgroup: e.target.value as GroupKey })}>
+              {GROUPS.filter((g) => g.id !== settings.group).map((g) => <option key={g.id} value={g.id}>{g.label}</option>)}
+            </select>
+          </>
+        )}
+        <span className="small muted" style={{ marginLeft: "auto" }}>
+          {shown} di {total} righe
+        </span>
+        <button className="button secondary" onClick={() => onChange({ ...DEFAULT_LIST_VIEW, collapsed: settings.collapsed })}>
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, type ChangeEvent } from "react";
+import { buildIndex, bulkAgeDays, deleteBulk, readBulkFile, saveBulk, type BulkIndex, type BulkMeta, type DataSourcePrefs } from "../lib/bulkData";
+import type { DataSource } from "../lib/scryfall";
+
+type Props = {
+  bulkMeta: BulkMeta | null;
+  bulkLoaded: boolean;
+  prefs: DataSourcePrefs;
+  source: DataSource;
+  isOnline: boolean;
+  onBulkChange: (index: BulkIndex | null) => void;
+  onPrefsChange: (next: DataSourcePrefs) => void;
+  onError: (msg: string) => void;
+};
+
+// Scryfall regenerates bulk files daily; past this the local data is flagged as old
+const STALE_AFTER_DAYS = 30;
+
+export function fmtBulkAge(meta: BulkMeta): string {
+  const days = bulkAgeDays(meta);
+  return days === 0 ? "oggi" : days === 1 ? "ieri" : `${days} giorni fa`;
+}
+
+export default function DataSourcePanel({ bulkMeta, bulkLoaded, prefs, source, isOnline, onBulkChange, onPrefsChange, onError }: Props) {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  async function onPickFile(ev: ChangeEvent<HTMLInputElement>) {
+    const file = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!file) return;
+    try {
+      setBusy(`Leggo ${file.name}…`);
+      const { meta, cards } = await readBulkFile(file, (read, total) =>
+        setBusy(`Leggo ${file.name}… ${Math.round((read / Math.max(total, 1)) * 100)}%`)
+      );
+      setBusy(`Salvo ${meta.count} carte nel browser…`);
+      await saveBulk(meta, cards);
+      onBulkChange(buildIndex(meta, cards));
+    } catch (e: any) {
+      onError(e?.message ?? "Errore import dati offline");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function onRemove() {
+    if (!confirm("Eliminare i dati offline? Le ricerche torneranno a usare solo Scryfall online.")) return;
+    try {
+      await deleteBulk();
+      onBulkChange(null);
+    } catch (e: any) {
+      onError(e?.message ?? "Errore eliminazione dati offline");
+    }
+  }
+
+  const stale = bulkMeta ? bulkAgeDays(bulkMeta) > STALE_AFTER_DAYS : false;
+
+  return (
+    <div>
+      <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Dati carte</h2>
+      <div className="small">
+        Fonte attiva: <b>{source === "local" ? "file bulk locale" : "Scryfall online"}</b>
+        {!isOnline && <span className="badge" style={{ marginLeft: 8 }}>Offline</span>}
+      </div>
+      {!isOnline && !bulkLoaded && (
+        <div className="small" style={{ color: "#fca5a5", marginTop: 6 }}>
+          Nessuna connessione e nessun dato locale: importa un file bulk per cercare carte offline.
+        </div>
+      )}
+
+      {bulkMeta ? (
+        <div className="small" style={{ marginTop: 8 }}>
+          {bulkMeta.file_name} • {bulkMeta.count} carte • generato {fmtBulkAge(bulkMeta)} ({new Date(bulkMeta.generated_at).toLocaleDateString()})
+          {!bulkLoaded && !busy && " • caricamento…"}
+          {stale && <div style={{ color: "#fcd34d", marginTop: 4 }}>Dati con più di {STALE_AFTER_DAYS} giorni: scarica un file bulk aggiornato.</div>}
+        </div>
+      ) : (
+        <div className="small muted" style={{ marginTop: 8 }}>
+          Per usare l'app senza rete, scarica da scryfall.com/docs/api/bulk-data il file “Oracle Cards” (una stampa per carta)
+          o “Default Cards” (tutte le stampe) e importalo qui.
+        </div>
+      )}
+
+      <div className="row" style={{ marginTop: 10 }}>
+        <label className="button secondary" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+          {bulkMeta ? "Aggiorna file bulk" : "Importa file bulk"}
+          <input type="file" accept=".json,application/json" onChange={onPickFile} disabled={!!busy} style={{ display: "none" }} />
+        </label>
+        {bulkMeta && (
+          <button className="button danger" onClick={onRemove} disabled={!!busy}>
+            Elimina dati offline
+          </button>
+        )}
+      </div>
+      {busy && <div className="small" style={{ marginTop: 6 }}>{busy}</div>}
+
+      <label className="small" style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10 }}>
+        <input
+          type="checkbox"
+          checked={prefs.offlineOnly}
+          disabled={!bulkLoaded}
+          onChange={(e) => onPrefsChange({ ...prefs, offlineOnly: e.target.checked })}
+        />
+        Usa solo i dati locali anche con la rete disponibile
+      </label>
+    </div>
+  );
+}
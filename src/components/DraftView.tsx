@@ -0,0 +1,170 @@
+import { useMemo, useRef, useState } from "react";
+import { BUCKET_LABELS, COLOR_BUCKETS, colorBucket } from "../lib/analytics";
+import { DEFAULT_DRAFT_CONFIG, humanPick, startDraft, type DraftConfig, type DraftState, type PackBalance } from "../lib/draft";
+import { downloadTextFile } from "../lib/csv";
+import { poolToText, type PoolCard } from "../lib/pool";
+import { createRng, randomSeed, seedFromString, type Rng } from "../lib/random";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  cube: CubeEntry[];
+};
+
+function CardTile({ card, onClick }: { card: PoolCard; onClick?: () => void }) {
+  const e = card.entry;
+  return (
+    <button className="printItem" onClick={onClick} disabled={!onClick} title={`${e.name} — ${e.type_line}`}>
+      {e.thumb ? <img src={e.thumb} alt={e.name} loading="lazy" /> : <span className="small">{e.name}</span>}
+      <span className="small">{e.name}</span>
+    </button>
+  );
+}
+
+/** Picked cards grouped by color bucket, sorted by cmc. */
+export function PoolByColor({ cards }: { cards: PoolCard[] }) {
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      {COLOR_BUCKETS.map((b) => {
+        const group = cards
+          .filter((c) => colorBucket(c.entry) === b)
+          .sort((x, y) => (x.entry.cmc ?? 0) - (y.entry.cmc ?? 0) || x.entry.name.localeCompare(y.entry.name));
+        if (group.length === 0) return null;
+        return (
+          <div key={b}>
+            <div className="small"><b>{BUCKET_LABELS[b]}</b> ({group.length})</div>
+            <div className="printGrid" style={{ marginTop: 6 }}>
+              {group.map((c) => <CardTile key={c.uid} card={c} />)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function DraftView({ cube }: Props) {
+  const [config, setConfig] = useState<DraftConfig>(DEFAULT_DRAFT_CONFIG);
+  const [seedText, setSeedText] = useState("");
+  const [state, setState] = useState<DraftState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rngRef = useRef<Rng | null>(null);
+
+  const poolSize = useMemo(() => cube.reduce((acc, e) => acc + e.qty, 0), [cube]);
+  const needed = config.seats * config.packsPerSeat * config.packSize;
+
+  function update<K extends keyof DraftConfig>(key: K, value: DraftConfig[K]) {
+    setConfig((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function start() {
+    try {
+      const seed = seedText.trim() ? seedFromString(seedText.trim()) : randomSeed();
+      rngRef.current = createRng(seed);
+      setState(startDraft(cube, config, rngRef.current));
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? "Errore avvio draft");
+    }
+  }
+
+  function pick(uid: string) {
+    if (!state || !rngRef.current) return;
+    setState(humanPick(state, uid, rngRef.current));
+  }
+
+  function exportPool() {
+    if (!state) return;
+    downloadTextFile("draft-pool.txt", poolToText(state.picks[0]), "text/plain;charset=utf-8");
+  }
+
+  if (!state) {
+    return (
+      <div className="card">
+        <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Draft simulator</h2>
+        <div className="small muted" style={{ marginBottom: 12 }}>
+          Genera le buste dal cubo corrente (rispettando le qty) e drafta contro dei bot. Tu sei il posto 1.
+        </div>
+        <div className="formGrid">
+          <label className="small">Giocatori</label>
+          <input className="input qty" type="number" min={2} max={12} value={config.seats}
+            onChange={(e) => update("seats", Math.max(2, Math.min(12, Number(e.target.value) || 2)))} />
+          <label className="small">Buste per giocatore</label>
+          <input className="input qty" type="number" min={1} max={5} value={config.packsPerSeat}
+            onChange={(e) => update("packsPerSeat", Math.max(1, Math.min(5, Number(e.target.value) || 1)))} />
+          <label className="small">Carte per busta</label>
+          <input className="input qty" type="number" min={5} max={24} value={config.packSize}
+            onChange={(e) => update("packSize", Math.max(5, Math.min(24, Number(e.target.value) || 5)))} />
+          <label className="small">Bilanciamento buste</label>
+          <select className="input" style={{ width: "auto" }} value={config.balance}
+            onChange={(e) => update("balance", e.target.value as PackBalance)}>
+            <option value="none">Nessuno (casuale)</option>
+            <option value="color">Per colore</option>
+            <option value="rarity">Per rarità</option>
+          </select>
+          <label className="small">Seed (opzionale)</label>
+          <input className="input" style={{ width: 220 }} value={seedText} placeholder="casuale"
+            onChange={(e) => setSeedText(e.target.value)} />
+        </div>
+        <div className="row" style={{ marginTop: 14 }}>
+          <button className="button" disabled={needed > poolSize} onClick={start}>
+            Inizia draft
+          </button>
+          <span className={`small${needed > poolSize ? "" : " muted"}`}>
+            Servono {needed} carte, il cubo ne ha {poolSize}.
+          </span>
+        </div>
+        {error && <div className="small" style={{ color: "#fca5a5", marginTop: 10 }}>{error}</div>}
+      </div>
+    );
+  }
+
+  const mine = state.picks[0];
+
+  if (state.done) {
+    return (
+      <div className="card">
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <h2 style={{ margin: 0, fontSize: 18 }}>Draft completato — il tuo pool ({mine.length} carte)</h2>
+          <div className="row">
+            <button className="button" onClick={exportPool}>Esporta pool (.txt)</button>
+            <button className="button secondary" onClick={() => setState(null)}>Nuovo draft</button>
+          </div>
+        </div>
+        <hr />
+        <PoolByColor cards={mine} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="two-col">
+      <div className="card">
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <h2 style={{ margin: 0, fontSize: 18 }}>
+            Busta {state.round + 1}/{state.config.packsPerSeat} • Scelta {state.pick + 1}
+          </h2>
+          <span className="small muted">
+            Passaggio a {state.round % 2 === 0 ? "sinistra" : "destra"} • clicca una carta per sceglierla
+          </span>
+        </div>
+        <div className="printGrid" style={{ marginTop: 12 }}>
+          {state.packs[0].map((c) => <CardTile key={c.uid} card={c} onClick={() => pick(c.uid)} />)}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <h2 style={{ margin: 0, fontSize: 18 }}>Le tue scelte ({mine.length})</h2>
+          <button className="button secondary" onClick={() => {
+            if (confirm("Abbandonare il draft in corso?")) setState(null);
+          }}>
+            Abbandona
+          </button>
+        </div>
+        <ol className="small reportList" style={{ maxHeight: "none" }}>
+          {mine.map((c) => <li key={c.uid}>{c.entry.name}</li>)}
+        </ol>
+      </div>
+    </div>
+  );
+}
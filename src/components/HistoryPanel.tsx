@@ -0,0 +1,49 @@
+import type { CubeHistory } from "../lib/history";
+
+type Props = {
+  history: CubeHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+};
+
+function fmtClock(ts: number) {
+  return new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function HistoryPanel({ history, canUndo, canRedo, onUndo, onRedo, onJump }: Props) {
+  // Newest first; entries after the current index are the redo branch
+  const rows = history.items.map((item, i) => ({ item, i })).reverse();
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <h2 style={{ margin: 0, fontSize: 18 }}>Cronologia</h2>
+        <div className="row" style={{ gap: 6 }}>
+          <button className="button secondary" disabled={!canUndo} onClick={onUndo} title="Annulla (Ctrl+Z)">
+            ↶ Annulla
+          </button>
+          <button className="button secondary" disabled={!canRedo} onClick={onRedo} title="Ripeti (Ctrl+Shift+Z)">
+            ↷ Ripeti
+          </button>
+        </div>
+      </div>
+      <ul className="historyList">
+        {rows.map(({ item, i }) => (
+          <li key={`${i}-${item.at}`}>
+            <button
+              className={`historyItem${i === history.index ? " current" : ""}${i > history.index ? " future" : ""}`}
+              onClick={() => onJump(i)}
+              title="Torna a questo punto"
+            >
+              <span>{item.label}</span>
+              <span className="small muted">{fmtClock(item.at)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
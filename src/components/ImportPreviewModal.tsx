@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { applyImportPlan, CONFLICT_RESOLUTIONS, planImport, type ConflictResolution, type ImportIssue } from "../lib/importPlan";
+import { clampQty, type CubeEntry } from "../lib/storage";
+import { entryKey } from "../lib/sync";
+
+type Props = {
+  source: string; // "JSON", "CSV", "CSV CubeCobra"
+  entries: CubeEntry[];
+  rejected: ImportIssue[];
+  adjusted: ImportIssue[];
+  cube: CubeEntry[];
+  onApply: (entries: CubeEntry[], label: string) => void;
+  onClose: () => void;
+};
+
+type Mode = "merge" | "replace";
+
+function printing(e: CubeEntry) {
+  return `${e.set.toUpperCase()} #${e.collector_number}`;
+}
+
+function IssueList({ title, issues }: { title: string; issues: ImportIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div>
+      <b className="small">{title} ({issues.length})</b>
+      <ul className="small reportList">
+        {issues.map((i, idx) => (
+          <li key={`${i.row}-${idx}`}>
+            riga {i.row}{i.name ? <> (<b>{i.name}</b>)</> : null}: {i.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** What an import would do to the cube; nothing is applied until the user confirms. */
+export default function ImportPreviewModal({ source, entries, rejected, adjusted, cube, onApply, onClose }: Props) {
+  const [mode, setMode] = useState<Mode>("merge");
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const plan = useMemo(() => planImport(cube, entries), [cube, entries]);
+  const importedCount = entries.reduce((acc, e) => acc + e.qty, 0);
+
+  function resolve(key: string, res: ConflictResolution) {
+    setResolutions((prev) => ({ ...prev, [key]: res }));
+  }
+
+  function resolveAll(res: ConflictResolution) {
+    setResolutions(Object.fromEntries(plan.conflicts.map((c) => [entryKey(c.incoming), res])));
+  }
+
+  function apply() {
+    const next = mode === "replace" ? entries : applyImportPlan(cube, plan, resolutions);
+    onApply(next, `Importate ${entries.length} righe da ${source} (${mode === "replace" ? "sostituisci" : "unisci"})`);
+    onClose();
+  }
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Anteprima import" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal wideModal" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Import {source}: anteprima</b></div>
+          <button className="button secondary" onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          <div className="small">
+            Righe valide <b>{entries.length}</b> ({importedCount} carte) • scartate <b>{rejected.length}</b> • corrette{" "}
+            <b>{adjusted.length}</b>
+          </div>
+
+          <IssueList title="Righe scartate" issues={rejected} />
+          <IssueList title="Righe corrette" issues={adjusted} />
+
+          {entries.length > 0 && (
+            <div className="row" role="radiogroup" aria-label="Modalità di import">
+              <label className="row" style={{ gap: 6 }}>
+                <input type="radio" name="importMode" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                <span className="small"><b>Unisci</b> al cubo attuale</span>
+              </label>
+              <label className="row" style={{ gap: 6 }}>
+                <input type="radio" name="importMode" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                <span className="small"><b>Sostituisci</b> il cubo attuale</span>
+              </label>
+            </div>
+          )}
+
+          {entries.length === 0 ? (
+            <div className="small">Nessuna riga valida da importare.</div>
+          ) : mode === "replace" ? (
+            <div className="small">
+              Il cubo attuale ({cube.length} righe) verrà sostituito dalle {entries.length} righe importate. Potrai annullare con Ctrl+Z.
+            </div>
+          ) : (
+            <>
+              {plan.added.length > 0 && (
+                <div>
+                  <b className="small">Nuove carte ({plan.added.length})</b>
+                  <ul className="small reportList">
+                    {plan.added.map((e) => (
+                      <li key={entryKey(e)}>
+                        <b>{e.name}</b> ×{e.qty} <span className="muted">{printing(e)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.increased.length > 0 && (
+                <div>
+                  <b className="small">Qty aumentata ({plan.increased.length})</b>
+                  <ul className="small reportList">
+                    {plan.increased.map(({ existing, incoming }) => (
+                      <li key={entryKey(incoming)}>
+                        <b>{existing.name}</b> qty {existing.qty} → {clampQty(existing.qty + incoming.qty)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.conflicts.length > 0 && (
+                <div>
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <b className="small">Conflitti: stessa carta, stampa diversa ({plan.conflicts.length})</b>
+                    <select className="input" style={{ width: "auto" }} value="" onChange={(e) => resolveAll(e.target.value as ConflictResolution)}
+                      aria-label="Applica a tutti i conflitti">
+                      <option value="" disabled>Applica a tutti…</option>
+                      {CONFLICT_RESOLUTIONS.map((r) => (
+                        <option key={r.id} value={r.id}>{r.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <ul className="resyncList">
+                    {plan.conflicts.map(({ existing, incoming }) => {
+                      const key = entryKey(incoming);
+                      return (
+                        <li key={key}>
+                          <div className="resyncItem" style={{ cursor: "default", justifyContent: "space-between", flexWrap: "wrap" }}>
+                            <div className="small">
+                              <b>{incoming.name}</b>: nel cubo <span className="badge">{printing(existing)}</span> ×{existing.qty}, nel file{" "}
+                              <span className="badge">{printing(incoming)}</span> ×{incoming.qty}
+                            </div>
+                            <select className="input" style={{ width: "auto" }} value={resolutions[key] ?? "merge"}
+                              onChange={(e) => resolve(key, e.target.value as ConflictResolution)} aria-label={`Conflitto ${incoming.name}`}>
+                              {CONFLICT_RESOLUTIONS.map((r) => (
+                                <option key={r.id} value={r.id}>{r.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {plan.added.length === 0 && plan.increased.length === 0 && plan.conflicts.length === 0 && (
+                <div className="small">Niente da unire.</div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modalActions">
+          <button className="button secondary" onClick={onClose}>
+            Annulla
+          </button>
+          <button className="button" disabled={entries.length === 0} onClick={apply}>
+            {mode === "replace" ? "Sostituisci il cubo" : "Importa"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { parseDecklist, resolveDecklist, type DecklistResolution, type ResolvedLine } from "../lib/decklist";
+
+type Props = {
+  onClose: () => void;
+  onImport: (resolved: ResolvedLine[]) => boolean; // false when the cube refused the edit
+};
+
+const PLACEHOLDER = `1 Lightning Bolt
+4x Counterspell (MH2) 267
+Swords to Plowshares
+// commenti e intestazioni (Deck, Sideboard) vengono ignorati`;
+
+export default function PasteImportModal({ onClose, onImport }: Props) {
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<(DecklistResolution & { skipped: number }) | null>(null);
+
+  async function run() {
+    const { lines, skipped } = parseDecklist(text);
+    if (lines.length === 0) {
+      setError("Nessuna riga valida trovata.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setProgress({ done: 0, total: lines.length });
+    try {
+      const res = await resolveDecklist(lines, (done, total) => setProgress({ done, total }));
+      if (res.resolved.length > 0 && !onImport(res.resolved)) {
+        setError("Il cubo non è ancora caricato: la lista non è stata importata. Riprova quando il cubo è pronto.");
+        return;
+      }
+      setReport({ ...res, skipped: skipped.length });
+    } catch (e: any) {
+      setError(e?.message ?? "Errore risoluzione lista");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const fuzzy = report?.resolved.filter((r) => r.fuzzy) ?? [];
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Importa lista incollata" onMouseDown={(e) => {
+      if (e.target === e.currentTarget && !busy) onClose();
+    }}>
+      <div className="modal" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Incolla lista</b></div>
+          <button className="button secondary" disabled={busy} onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          {!report ? (
+            <>
+              <div className="small">
+                Una carta per riga. Formati accettati: <code>1 Lightning Bolt</code>, <code>4x Counterspell (MH2) 267</code>,
+                export MTGO/Arena, oppure solo il nome.
+              </div>
+              <textarea
+                className="input textarea"
+                rows={14}
+                value={text}
+                placeholder={PLACEHOLDER}
+                disabled={busy}
+                onChange={(e) => setText(e.target.value)}
+              />
+              {progress && busy && (
+                <div className="small">Risoluzione su Scryfall… {progress.done}/{progress.total}</div>
+              )}
+              {error && <div className="small" style={{ color: "#fca5a5" }}>{error}</div>}
+            </>
+          ) : (
+            <>
+              <div className="small">
+                Aggiunte <b>{report.resolved.length}</b> righe
+                {report.skipped > 0 && <> • {report.skipped} righe ignorate (formato non riconosciuto)</>}
+              </div>
+
+              {report.unresolved.length > 0 && (
+                <div>
+                  <b className="small">Non trovate ({report.unresolved.length})</b>
+                  <ul className="small reportList">
+                    {report.unresolved.map((u) => (
+                      <li key={u.line.line}>
+                        riga {u.line.line}: <code>{u.line.raw}</code> — {u.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {fuzzy.length > 0 && (
+                <div>
+                  <b className="small">Corrispondenza approssimata ({fuzzy.length}) — verifica</b>
+                  <ul className="small reportList">
+                    {fuzzy.map((r) => (
+                      <li key={r.line.line}>
+                        riga {r.line.line}: <code>{r.line.name}</code> → <b>{r.card.name}</b>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {report.unresolved.length === 0 && fuzzy.length === 0 && (
+                <div className="small">Tutte le righe sono state risolte esattamente.</div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modalActions">
+          {!report ? (
+            <>
+              <button className="button secondary" disabled={busy} onClick={onClose}>
+                Annulla
+              </button>
+              <button className="button" disabled={busy || text.trim().length === 0} onClick={run}>
+                {busy ? "Importo…" : "Importa nel cubo"}
+              </button>
+            </>
+          ) : (
+            <button className="button" onClick={onClose}>
+              Fatto
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
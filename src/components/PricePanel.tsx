@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CURRENCIES,
+  cubeCost,
+  fetchPrices,
+  formatPrice,
+  mostExpensive,
+  type CardPrices,
+  type Currency
+} from "../lib/prices";
+import { isAbortError } from "../lib/scryfallClient";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  entries: CubeEntry[];
+  currency: Currency;
+  budget?: number;
+  onCurrencyChange: (c: Currency) => void;
+  onBudgetChange: (budget: number | undefined) => void;
+  onPricesFetched: (prices: Map<string, CardPrices | undefined>, at: number) => void;
+  onError: (msg: string) => void;
+  onJumpToEntry: (id: string) => void;
+};
+
+function fmtDate(ts?: number) {
+  return ts ? new Date(ts).toLocaleString() : "—";
+}
+
+export default function PricePanel({ entries, currency, budget, onCurrencyChange, onBudgetChange, onPricesFetched, onError, onJumpToEntry }: Props) {
+  const [budgetText, setBudgetText] = useState(budget !== undefined ? String(budget) : "");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Follow the active cube's budget
+  useEffect(() => {
+    setBudgetText(budget !== undefined ? String(budget) : "");
+  }, [budget]);
+
+  // Stop an in-flight refresh when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cost = useMemo(() => cubeCost(entries, currency), [entries, currency]);
+  const top = useMemo(() => mostExpensive(entries, currency, 10), [entries, currency]);
+  const over = budget !== undefined && cost.total > budget;
+
+  function commitBudget() {
+    const t = budgetText.trim().replace(",", ".");
+    if (t === "") {
+      if (budget !== undefined) onBudgetChange(undefined);
+      return;
+    }
+    const n = Number(t);
+    if (!Number.isFinite(n) || n <= 0) {
+      setBudgetText(budget !== undefined ? String(budget) : "");
+      return;
+    }
+    if (n !== budget) onBudgetChange(n);
+  }
+
+  async function refresh() {
+    const c = new AbortController();
+    abortRef.current = c;
+    setProgress({ done: 0, total: entries.length });
+    try {
+      const prices = await fetchPrices(entries, (done, total) => setProgress({ done, total }), c.signal);
+      onPricesFetched(prices, Date.now());
+    } catch (e: any) {
+      if (!isAbortError(e)) onError(e?.message ?? "Errore aggiornamento prezzi");
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <h2 style={{ margin: 0, fontSize: 18 }}>Prezzi</h2>
+        <select className="input" style={{ width: "auto" }} value={currency}
+          onChange={(e) => onCurrencyChange(e.target.value as Currency)} aria-label="Valuta">
+          {CURRENCIES.map((c) => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </select>
+      </div>
+
+      <div className="small" style={{ marginTop: 8 }}>
+        Totale cubo: <b className={over ? "overBudget" : undefined}>{formatPrice(cost.total, currency)}</b>
+        {budget !== undefined && <> su {formatPrice(budget, currency)}</>}
+        {cost.unpriced > 0 && <span className="muted"> • {cost.unpriced} righe senza prezzo</span>}
+      </div>
+      {over && (
+        <div className="small overBudget" style={{ marginTop: 4 }}>
+          Budget superato di {formatPrice(cost.total - budget!, currency)}.
+        </div>
+      )}
+      <div className="small muted" style={{ marginTop: 4 }}>Prezzi aggiornati al: {fmtDate(cost.oldest_at)} (il più vecchio)</div>
+
+      <div className="row" style={{ marginTop: 10 }}>
+        <label className="small">Budget</label>
+        <input
+          className="input"
+          style={{ width: 110 }}
+          inputMode="decimal"
+          placeholder="nessuno"
+          value={budgetText}
+          onChange={(e) => setBudgetText(e.target.value)}
+          onBlur={commitBudget}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitBudget();
+          }}
+          aria-label="Budget del cubo"
+        />
+        <button className="button secondary" disabled={!!progress || entries.length === 0} onClick={refresh} style={{ marginLeft: "auto" }}>
+          {progress ? `Aggiorno… ${progress.done}/${progress.total}` : "Aggiorna prezzi"}
+        </button>
+      </div>
+
+      {top.length > 0 && (
+        <>
+          <div className="small" style={{ marginTop: 10 }}><b>Carte più costose</b></div>
+          <table className="statTable">
+            <tbody>
+              {top.map(({ entry, unit, total }) => (
+                <tr key={entry.id}>
+                  <td>
+                    <button className="linkButton" onClick={() => onJumpToEntry(entry.id)} title="Vai alla carta nella lista">
+                      {entry.name}
+                    </button>
+                  </td>
+                  <td className="num muted">{entry.qty > 1 ? `${entry.qty}× ${formatPrice(unit, currency)}` : ""}</td>
+                  <td className="num">{formatPrice(total, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from "react";
+import { BUCKET_LABELS, COLOR_BUCKETS, colorBucket } from "../lib/analytics";
+import { PAPER_SIZES, fetchCardImages, paginate, proxySlots, type PaperSize, type ProxySlot } from "../lib/print";
+import { isAbortError } from "../lib/scryfallClient";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  cube: CubeEntry[];
+};
+
+type Layout = "proxies" | "spoiler";
+
+function ProxyCard({ slot }: { slot: ProxySlot }) {
+  const e = slot.entry;
+  if (slot.image) return <img className="proxyCard" src={slot.image} alt={e.name} />;
+  // No image (not found, or offline without bulk data): a text proxy is still playable
+  return (
+    <div className="proxyCard proxyText">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <b>{e.name}</b>
+        <span>{e.mana_cost}</span>
+      </div>
+      <div>{e.type_line}</div>
+    </div>
+  );
+}
+
+/** Proxy sheets (3×3 cards at real size per page) and a visual spoiler by color, laid out for the browser's print dialog. */
+export default function PrintView({ cube }: Props) {
+  const [layout, setLayout] = useState<Layout>("proxies");
+  const [paper, setPaper] = useState<PaperSize>("a4");
+  const [cutLines, setCutLines] = useState(true);
+  const [withBacks, setWithBacks] = useState(false);
+  const [images, setImages] = useState<Map<string, string[]>>(new Map());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = useMemo(
+    () =>
+      COLOR_BUCKETS.flatMap((b) =>
+        cube.filter((e) => colorBucket(e) === b).sort((a, c) => (a.cmc ?? 0) - (c.cmc ?? 0) || a.name.localeCompare(c.name))
+      ),
+    [cube]
+  );
+
+  // Only a different set of cards needs new images, not qty or tag edits
+  const idsKey = useMemo(() => cube.map((e) => e.id).sort().join(","), [cube]);
+
+  useEffect(() => {
+    const missing = cube.filter((e) => !images.has(e.id));
+    if (missing.length === 0) return;
+    const ctrl = new AbortController();
+    setError(null);
+    setProgress({ done: 0, total: missing.length });
+    fetchCardImages(missing, (done, total) => setProgress({ done, total }), ctrl.signal)
+      .then((found) => {
+        setImages((prev) => {
+          const next = new Map(prev);
+          // Remember misses too, so they are not fetched again
+          for (const e of missing) next.set(e.id, found.get(e.id) ?? []);
+          return next;
+        });
+      })
+      .catch((e: any) => {
+        if (!isAbortError(e)) setError(e?.message ?? "Errore recupero immagini");
+      })
+      .finally(() => setProgress(null));
+    return () => ctrl.abort();
+  }, [idsKey]);
+
+  // Print styles apply only while this view is mounted; @page follows the chosen paper.
+  // Proxy pages carry their own margins (the 3×3 grid is centred), the spoiler needs the page's.
+  useEffect(() => {
+    const size = PAPER_SIZES.find((p) => p.id === paper)!;
+    const style = document.createElement("style");
+    style.textContent = `@page { size: ${size.width_mm}mm ${size.height_mm}mm; margin: ${layout === "proxies" ? 0 : "10mm"}; }`;
+    document.head.appendChild(style);
+    document.body.classList.add("printMode");
+    return () => {
+      style.remove();
+      document.body.classList.remove("printMode");
+    };
+  }, [paper, layout]);
+
+  const pages = useMemo(() => paginate(proxySlots(sorted, images, withBacks)), [sorted, images, withBacks]);
+  const groups = useMemo(
+    () => COLOR_BUCKETS.map((b) => ({ bucket: b, entries: sorted.filter((e) => colorBucket(e) === b) })).filter((g) => g.entries.length > 0),
+    [sorted]
+  );
+  const size = PAPER_SIZES.find((p) => p.id === paper)!;
+  const missingImages = sorted.filter((e) => images.get(e.id)?.length === 0).length;
+
+  return (
+    <div className="printView">
+      <div className="card printControls">
+        <div className="row">
+          <div className="row" role="radiogroup" aria-label="Layout di stampa">
+            <label className="row small" style={{ gap: 6 }}>
+              <input type="radio" name="printLayout" checked={layout === "proxies"} onChange={() => setLayout("proxies")} />
+              Fogli proxy (3×3, misura reale)
+            </label>
+            <label className="row small" style={{ gap: 6 }}>
+              <input type="radio" name="printLayout" checked={layout === "spoiler"} onChange={() => setLayout("spoiler")} />
+              Spoiler per colore
+            </label>
+          </div>
+          <select className="input" style={{ width: "auto" }} value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} aria-label="Formato carta">
+            {PAPER_SIZES.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          {layout === "proxies" && (
+            <>
+              <label className="row small" style={{ gap: 6 }}>
+                <input type="checkbox" checked={cutLines} onChange={(e) => setCutLines(e.target.checked)} />
+                Linee di taglio
+              </label>
+              <label className="row small" style={{ gap: 6 }} title="Stampa anche il retro delle carte a due facce (DFC), subito dopo il fronte">
+                <input type="checkbox" checked={withBacks} onChange={(e) => setWithBacks(e.target.checked)} />
+                Retro delle DFC
+              </label>
+            </>
+          )}
+          <button className="button" style={{ marginLeft: "auto" }} disabled={cube.length === 0 || !!progress} onClick={() => window.print()}>
+            Stampa / Salva PDF
+          </button>
+        </div>
+        <div className="small muted" style={{ marginTop: 8 }}>
+          {layout === "proxies"
+            ? `${pages.length} pagine ${size.label}. Nella finestra di stampa imposta la scala al 100% (niente “Adatta alla pagina”) perché le carte escano a 63×88 mm.`
+            : "Carte raggruppate per colore, una per riga del cubo con la quantità."}
+        </div>
+        {progress && <div className="small" style={{ marginTop: 6 }}>Recupero le immagini da Scryfall… {progress.done}/{progress.total}</div>}
+        {error && <div className="small" style={{ marginTop: 6, color: "#fca5a5" }}>{error}</div>}
+        {!progress && missingImages > 0 && (
+          <div className="small muted" style={{ marginTop: 6 }}>{missingImages} carte senza immagine: verranno stampate come proxy di solo testo.</div>
+        )}
+      </div>
+
+      {cube.length === 0 ? (
+        <div className="card small printControls">Il cubo è vuoto.</div>
+      ) : layout === "proxies" ? (
+        <div className="proxySheets">
+          {pages.map((page, i) => (
+            <div key={i} className={`proxyPage${cutLines ? " cutLines" : ""}`} style={{ width: `${size.width_mm}mm`, height: `${size.height_mm}mm` }}>
+              <div className="proxyGrid">
+                {page.map((slot) => <ProxyCard key={slot.key} slot={slot} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="spoilerSheet" style={{ maxWidth: `${size.width_mm}mm` }}>
+          {groups.map((g) => (
+            <section key={g.bucket}>
+              <h3 className="spoilerHeading">
+                {BUCKET_LABELS[g.bucket]} ({g.entries.reduce((acc, e) => acc + e.qty, 0)})
+              </h3>
+              <div className="spoilerGrid">
+                {g.entries.map((e) => {
+                  const src = images.get(e.id)?.[0] ?? e.thumb;
+                  return (
+                    <figure key={e.id} className="spoilerItem">
+                      {src ? <img src={src} alt={e.name} /> : <div className="proxyText">{e.type_line}</div>}
+                      <figcaption>
+                        {e.name}
+                        {e.qty > 1 && <> ×{e.qty}</>}
+                      </figcaption>
+                    </figure>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
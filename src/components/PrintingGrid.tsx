@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { fetchPrints, getThumb, type ScryfallCard } from "../lib/scryfall";
+import { isAbortError } from "../lib/scryfallClient";
+
+type Props = {
+  name: string;
+  selectedId?: string;
+  onPick: (card: ScryfallCard) => void;
+};
+
+/** Thumbnail grid of every printing of a card. */
+export default function PrintingGrid({ name, selectedId, onPick }: Props) {
+  const [prints, setPrints] = useState<ScryfallCard[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    setPrints(null);
+    setError(null);
+    fetchPrints(name, undefined, ctrl.signal)
+      .then((res) => {
+        if (!ctrl.signal.aborted) setPrints(res);
+      })
+      .catch((e: any) => {
+        if (!isAbortError(e)) setError(e?.message ?? "Errore caricamento stampe");
+      });
+    return () => ctrl.abort();
+  }, [name]);
+
+  if (error) return <div className="small" style={{ color: "#fca5a5" }}>{error}</div>;
+  if (!prints) return <div className="small">Carico le stampe…</div>;
+  if (prints.length === 0) return <div className="small">Nessuna stampa trovata.</div>;
+
+  return (
+    <div className="printGrid">
+      {prints.map((p) => {
+        const thumb = getThumb(p);
+        return (
+          <button
+            key={p.id}
+            className={`printItem${p.id === selectedId ? " selected" : ""}`}
+            onClick={() => onPick(p)}
+            title={`${p.set_name ?? p.set.toUpperCase()} #${p.collector_number}`}
+          >
+            {thumb ? <img src={thumb} alt={p.name} loading="lazy" /> : <span className="small">no img</span>}
+            <span className="small">{p.set.toUpperCase()} #{p.collector_number}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
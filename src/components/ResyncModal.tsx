@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from "react";
+import { getThumb, type ScryfallCard } from "../lib/scryfall";
+import { isAbortError } from "../lib/scryfallClient";
+import { resyncEntries, type ResyncField, type ResyncReport } from "../lib/resync";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  cube: CubeEntry[];
+  onClose: () => void;
+  onApply: (accepted: Array<{ entryId: string; card: ScryfallCard }>) => void;
+};
+
+const FIELD_LABELS: Record<ResyncField, string> = {
+  name: "Nome",
+  type_line: "Tipo",
+  mana_cost: "Costo",
+  cmc: "CMC",
+  rarity: "Rarità",
+  color_identity: "Identità colore",
+  thumb: "Immagine",
+  faces: "Facce"
+};
+
+/** Re-fetch every entry of the cube and let the user pick which updates to apply. */
+export default function ResyncModal({ cube, onClose, onApply }: Props) {
+  const [progress, setProgress] = useState({ done: 0, total: cube.length });
+  const [report, setReport] = useState<ResyncReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // The job runs on the cube as it was when the dialog opened
+  useEffect(() => {
+    const ctrl = new AbortController();
+    resyncEntries(cube, (done, total) => setProgress({ done, total }), ctrl.signal)
+      .then((res) => {
+        setReport(res);
+        // Changes of still valid cards are pre-selected; replacements for lost ids are opt-in
+        setAccepted(new Set(res.changed.map((d) => d.entry.id)));
+      })
+      .catch((e: any) => {
+        if (!isAbortError(e)) setError(e?.message ?? "Errore aggiornamento da Scryfall");
+      });
+    return () => ctrl.abort();
+  }, []);
+
+  const candidates = useMemo(() => {
+    if (!report) return [];
+    return [
+      ...report.changed.map((d) => ({ entryId: d.entry.id, card: d.card })),
+      ...report.missing.filter((m) => m.card).map((m) => ({ entryId: m.entry.id, card: m.card! }))
+    ];
+  }, [report]);
+
+  function toggle(id: string) {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function apply() {
+    onApply(candidates.filter((c) => accepted.has(c.entryId)));
+    onClose();
+  }
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Aggiorna da Scryfall" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal wideModal" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Aggiorna cubo da Scryfall</b></div>
+          <button className="button secondary" onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          {error && <div className="small" style={{ color: "#fca5a5" }}>{error}</div>}
+          {!report && !error && (
+            <div className="small">Controllo le carte su Scryfall… {progress.done}/{progress.total}</div>
+          )}
+
+          {report && (
+            <>
+              <div className="small">
+                Controllate <b>{report.checked}</b> righe • <b>{report.changed.length}</b> con modifiche •{" "}
+                <b>{report.missing.length}</b> con id non più valido
+              </div>
+
+              {report.changed.length === 0 && report.missing.length === 0 && (
+                <div className="small">Il cubo è già allineato con Scryfall.</div>
+              )}
+
+              {report.changed.length > 0 && (
+                <div>
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <b className="small">Modifiche ({report.changed.length})</b>
+                    <div className="row" style={{ gap: 6 }}>
+                      <button className="button secondary" onClick={() => setAccepted(new Set(candidates.map((c) => c.entryId)))}>
+                        Seleziona tutte
+                      </button>
+                      <button className="button secondary" onClick={() => setAccepted(new Set())}>
+                        Nessuna
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="resyncList">
+                    {report.changed.map((d) => (
+                      <li key={d.entry.id}>
+                        <label className="resyncItem">
+                          <input type="checkbox" checked={accepted.has(d.entry.id)} onChange={() => toggle(d.entry.id)} />
+                          <div>
+                            <b>{d.entry.name}</b> <span className="badge">{d.entry.set.toUpperCase()} #{d.entry.collector_number}</span>
+                            <table className="statTable small">
+                              <tbody>
+                                {d.changes.map((c) => (
+                                  <tr key={c.field}>
+                                    <td>{FIELD_LABELS[c.field]}</td>
+                                    {c.field === "thumb" ? (
+                                      <td colSpan={2}>
+                                        <span className="resyncThumbs">
+                                          {c.before ? <img src={c.before} alt="prima" loading="lazy" /> : "—"} →{" "}
+                                          {c.after ? <img src={c.after} alt="dopo" loading="lazy" /> : "—"}
+                                        </span>
+                                      </td>
+                                    ) : (
+                                      <>
+                                        <td className="muted">{c.before || "—"}</td>
+                                        <td>→ {c.after || "—"}</td>
+                                      </>
+                                    )}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {report.missing.length > 0 && (
+                <div>
+                  <b className="small">Id Scryfall non più valido ({report.missing.length})</b>
+                  <ul className="resyncList">
+                    {report.missing.map((m) => (
+                      <li key={m.entry.id}>
+                        <label className="resyncItem">
+                          <input
+                            type="checkbox"
+                            disabled={!m.card}
+                            checked={accepted.has(m.entry.id)}
+                            onChange={() => toggle(m.entry.id)}
+                          />
+                          <div className="small">
+                            <b>{m.entry.name}</b> <span className="badge">{m.entry.set.toUpperCase()} #{m.entry.collector_number}</span>
+                            {m.card ? (
+                              <>
+                                {" "}→ sostituisci con <b>{m.card.name}</b> ({m.card.set.toUpperCase()} #{m.card.collector_number})
+                                {getThumb(m.card) && <span className="resyncThumbs"> <img src={getThumb(m.card)} alt={m.card.name} loading="lazy" /></span>}
+                              </>
+                            ) : (
+                              <span style={{ color: "#fca5a5" }}> — nessuna corrispondenza trovata: verifica o rimuovi la carta</span>
+                            )}
+                          </div>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modalActions">
+          <button className="button secondary" onClick={onClose}>
+            Annulla
+          </button>
+          <button className="button" disabled={!report || accepted.size === 0} onClick={apply}>
+            Applica {accepted.size > 0 ? `(${accepted.size})` : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo, useState } from "react";
+import { BUCKET_LABELS, COLOR_BUCKETS, type ColorBucket } from "../lib/analytics";
+import { HIGH_CMC, TARGET_SIZES, hasRules, lintCube, normalizeRules, type CubeRules } from "../lib/rules";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  entries: CubeEntry[];
+  rules: CubeRules;
+  onRulesChange: (rules: CubeRules) => void;
+  onJumpToEntry: (id: string) => void;
+};
+
+// Form state: numbers stay as typed until saved
+type Draft = {
+  singleton: boolean;
+  target_size: string;
+  color_quotas: Record<ColorBucket, string>;
+  max_high_cmc: string;
+  banned: string;
+};
+
+const MAX_LINKS = 8;
+
+function toDraft(r: CubeRules): Draft {
+  const quotas = {} as Record<ColorBucket, string>;
+  for (const b of COLOR_BUCKETS) quotas[b] = r.color_quotas[b] !== undefined ? String(r.color_quotas[b]) : "";
+  return {
+    singleton: r.singleton,
+    target_size: r.target_size !== undefined ? String(r.target_size) : "",
+    color_quotas: quotas,
+    max_high_cmc: r.max_high_cmc !== undefined ? String(r.max_high_cmc) : "",
+    banned: r.banned.join("\n")
+  };
+}
+
+function fromDraft(d: Draft): CubeRules {
+  const num = (s: string) => (s.trim() === "" ? undefined : Number(s.trim()));
+  const quotas: Record<string, number | undefined> = {};
+  for (const b of COLOR_BUCKETS) quotas[b] = num(d.color_quotas[b]);
+  // normalizeRules drops whatever is not a valid number
+  return normalizeRules({
+    singleton: d.singleton,
+    target_size: num(d.target_size),
+    color_quotas: quotas,
+    max_high_cmc: num(d.max_high_cmc),
+    banned: d.banned.split("\n")
+  });
+}
+
+/** Design rules of the active cube and the violations found, re-checked on every change. */
+export default function RulesPanel({ entries, rules, onRulesChange, onJumpToEntry }: Props) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const violations = useMemo(() => lintCube(entries, rules), [entries, rules]);
+  const total = entries.reduce((acc, e) => acc + e.qty, 0);
+
+  function save() {
+    if (!draft) return;
+    onRulesChange(fromDraft(draft));
+    setDraft(null);
+  }
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <h2 style={{ margin: 0, fontSize: 18 }}>Regole di design</h2>
+        {!draft && (
+          <button className="button secondary" onClick={() => setDraft(toDraft(rules))}>
+            Modifica regole
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+          <label className="row small" style={{ gap: 6 }}>
+            <input type="checkbox" checked={draft.singleton} onChange={(e) => setDraft({ ...draft, singleton: e.target.checked })} />
+            Singleton (ogni carta una sola volta)
+          </label>
+
+          <div className="row">
+            <label className="small" style={{ minWidth: 130 }}>Dimensione</label>
+            <select className="input" style={{ width: "auto" }} value={draft.target_size}
+              onChange={(e) => setDraft({ ...draft, target_size: e.target.value })} aria-label="Dimensione prevista">
+              <option value="">nessun limite</option>
+              {TARGET_SIZES.map((n) => <option key={n} value={String(n)}>{n} carte</option>)}
+              {draft.target_size !== "" && !TARGET_SIZES.some((n) => String(n) === draft.target_size) && (
+                <option value={draft.target_size}>{draft.target_size} carte</option>
+              )}
+            </select>
+          </div>
+
+          <div className="row">
+            <label className="small" style={{ minWidth: 130 }}>Max CMC ≥ {HIGH_CMC}</label>
+            <input className="input qty" inputMode="numeric" placeholder="—" value={draft.max_high_cmc}
+              onChange={(e) => setDraft({ ...draft, max_high_cmc: e.target.value })} aria-label={`Massimo carte con CMC ${HIGH_CMC} o più`} />
+          </div>
+
+          <div>
+            <div className="small">Quote per colore (massimo, vuoto = nessuna)</div>
+            <div className="row" style={{ gap: 6, marginTop: 4 }}>
+              {COLOR_BUCKETS.map((b) => (
+                <label key={b} className="small" style={{ display: "grid", gap: 2 }} title={BUCKET_LABELS[b]}>
+                  {b}
+                  <input className="input qty" inputMode="numeric" placeholder="—" value={draft.color_quotas[b]}
+                    onChange={(e) => setDraft({ ...draft, color_quotas: { ...draft.color_quotas, [b]: e.target.value } })}
+                    aria-label={`Quota ${BUCKET_LABELS[b]}`} />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="small">Carte bandite (una per riga)</div>
+            <textarea className="input" rows={4} style={{ marginTop: 4, width: "100%" }} value={draft.banned}
+              onChange={(e) => setDraft({ ...draft, banned: e.target.value })} aria-label="Carte bandite" />
+          </div>
+
+          <div className="row" style={{ justifyContent: "flex-end" }}>
+            <button className="button secondary" onClick={() => setDraft(null)}>
+              Annulla
+            </button>
+            <button className="button" onClick={save}>
+              Salva regole
+            </button>
+          </div>
+        </div>
+      ) : !hasRules(rules) ? (
+        <div className="small muted" style={{ marginTop: 8 }}>
+          Nessuna regola impostata: singleton, dimensione, quote per colore, carte costose e ban list sono tutte opzionali.
+        </div>
+      ) : (
+        <>
+          {rules.target_size !== undefined && (
+            <div className="small" style={{ marginTop: 8 }}>
+              Dimensione: <b className={total > rules.target_size ? "overBudget" : undefined}>{total}</b> / {rules.target_size}
+              {total < rules.target_size && <span className="muted"> • mancano {rules.target_size - total} carte</span>}
+            </div>
+          )}
+          {violations.length === 0 ? (
+            <div className="small" style={{ marginTop: 8 }}>Nessuna violazione.</div>
+          ) : (
+            <ul className="small reportList">
+              {violations.map((v) => (
+                <li key={v.key}>
+                  <span className="overBudget">{v.message}</span>
+                  {v.entries.length > 0 && v.rule !== "banned" && v.rule !== "singleton" && (
+                    <div>
+                      {v.entries.slice(0, MAX_LINKS).map((e, i) => (
+                        <span key={e.id}>
+                          {i > 0 && ", "}
+                          <button className="linkButton" onClick={() => onJumpToEntry(e.id)} title="Vai alla carta nella lista">
+                            {e.name}
+                          </button>
+                        </span>
+                      ))}
+                      {v.entries.length > MAX_LINKS && <span className="muted"> e altre {v.entries.length - MAX_LINKS}</span>}
+                    </div>
+                  )}
+                  {(v.rule === "banned" || v.rule === "singleton") && (
+                    <>
+                      {" "}
+                      <button className="linkButton muted" onClick={() => onJumpToEntry(v.entries[0].id)} title="Vai alla carta nella lista">
+                        → vai
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { Fragment, useMemo, useState } from "react";
+import { CURVE_MAX, isCreature, isLand } from "../lib/analytics";
+import { downloadTextFile } from "../lib/csv";
+import type { PoolCard } from "../lib/pool";
+import { createRng, randomSeed, seedFromString } from "../lib/random";
+import {
+  BASIC_LANDS,
+  dealSealed,
+  deckSize,
+  deckToText,
+  emptyDeck,
+  moveCard,
+  type BasicColor,
+  type SealedDeck
+} from "../lib/sealed";
+import type { CubeEntry } from "../lib/storage";
+
+type Props = {
+  cube: CubeEntry[];
+};
+
+type Event = {
+  seed: string;
+  pools: PoolCard[][];
+  decks: SealedDeck[];
+};
+
+function byCurve(a: PoolCard, b: PoolCard) {
+  return (a.entry.cmc ?? 0) - (b.entry.cmc ?? 0) || a.entry.name.localeCompare(b.entry.name);
+}
+
+function MiniCurve({ cards }: { cards: PoolCard[] }) {
+  const cols = new Array<number>(CURVE_MAX + 1).fill(0);
+  let creatures = 0;
+  for (const c of cards) {
+    if (isLand(c.entry)) continue;
+    cols[Math.min(CURVE_MAX, Math.floor(c.entry.cmc ?? 0))]++;
+    if (isCreature(c.entry)) creatures++;
+  }
+  const max = Math.max(1, ...cols);
+  return (
+    <div>
+      <div className="miniCurve">
+        {cols.map((n, i) => (
+          <div key={i} className="miniCurveCol" title={`${n} carte a cmc ${i === CURVE_MAX ? `${CURVE_MAX}+` : i}`}>
+            <span className="small">{n || ""}</span>
+            <div className="miniCurveBar" style={{ height: `${(n / max) * 60}px` }} />
+            <span className="small muted">{i === CURVE_MAX ? `${CURVE_MAX}+` : i}</span>
+          </div>
+        ))}
+      </div>
+      <div className="small muted">Creature: {creatures}</div>
+    </div>
+  );
+}
+
+function DeckColumn({ title, cards, onMove }: { title: string; cards: PoolCard[]; onMove: (uid: string) => void }) {
+  return (
+    <div>
+      <div className="small"><b>{title}</b> ({cards.length})</div>
+      <div className="printGrid" style={{ marginTop: 6 }}>
+        {cards.map((c) => (
+          <button key={c.uid} className="printItem" onClick={() => onMove(c.uid)} title={`${c.entry.name} — clicca per spostare`}>
+            {c.entry.thumb ? <img src={c.entry.thumb} alt={c.entry.name} loading="lazy" /> : <span className="small">{c.entry.name}</span>}
+            <span className="small">{c.entry.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Deckbuilder({ pool, deck, onChange }: { pool: PoolCard[]; deck: SealedDeck; onChange: (d: SealedDeck) => void }) {
+  const byUid = useMemo(() => new Map(pool.map((c) => [c.uid, c])), [pool]);
+  const resolve = (uids: string[]) => uids.map((u) => byUid.get(u)).filter((c): c is PoolCard => !!c).sort(byCurve);
+  const main = resolve(deck.main);
+  const side = resolve(deck.side);
+
+  function setBasic(color: BasicColor, n: number) {
+    onChange({ ...deck, basics: { ...deck.basics, [color]: Math.max(0, Math.min(30, n || 0)) } });
+  }
+
+  return (
+    <div className="two-col">
+      <div style={{ display: "grid", gap: 16 }}>
+        <DeckColumn title="Main deck" cards={main} onMove={(uid) => onChange(moveCard(deck, uid, "side"))} />
+        <hr style={{ margin: 0 }} />
+        <DeckColumn title="Sideboard" cards={side} onMove={(uid) => onChange(moveCard(deck, uid, "main"))} />
+      </div>
+      <div style={{ display: "grid", gap: 14, alignContent: "start" }}>
+        <div className="small">
+          Totale main deck: <b>{deckSize(deck)}</b> (carte {deck.main.length} + base {deckSize(deck) - deck.main.length})
+        </div>
+        <MiniCurve cards={main} />
+        <div className="formGrid">
+          {BASIC_LANDS.map((b) => (
+            <Fragment key={b.color}>
+              <label className="small">{b.name}</label>
+              <input className="input qty" type="number" min={0} max={30} value={deck.basics[b.color]}
+                onChange={(e) => setBasic(b.color, Number(e.target.value))} />
+            </Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SealedView({ cube }: Props) {
+  const [poolCount, setPoolCount] = useState(8);
+  const [poolSize, setPoolSize] = useState(45);
+  const [seedText, setSeedText] = useState("");
+  const [event, setEvent] = useState<Event | null>(null);
+  const [openIdx, setOpenIdx] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const available = useMemo(() => cube.reduce((acc, e) => acc + e.qty, 0), [cube]);
+  const needed = poolCount * poolSize;
+
+  function deal() {
+    try {
+      const seed = seedText.trim() || String(randomSeed());
+      const pools = dealSealed(cube, poolCount, poolSize, createRng(seedFromString(seed)));
+      setEvent({ seed, pools, decks: pools.map(emptyDeck) });
+      setSeedText(seed);
+      setOpenIdx(0);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? "Errore generazione pool");
+    }
+  }
+
+  function updateDeck(i: number, deck: SealedDeck) {
+    setEvent((prev) => (prev ? { ...prev, decks: prev.decks.map((d, j) => (j === i ? deck : d)) } : prev));
+  }
+
+  function exportDeck(i: number) {
+    if (!event) return;
+    downloadTextFile(`sealed-pool-${i + 1}.txt`, deckToText(event.pools[i], event.decks[i]), "text/plain;charset=utf-8");
+  }
+
+  if (!event) {
+    return (
+      <div className="card">
+        <h2 style={{ margin: "0 0 10px", fontSize: 18 }}>Sealed</h2>
+        <div className="small muted" style={{ marginBottom: 12 }}>
+          Distribuisce pool casuali dal cubo senza ripetizioni. Con lo stesso seed la distribuzione è identica.
+        </div>
+        <div className="formGrid">
+          <label className="small">Numero di pool</label>
+          <input className="input qty" type="number" min={1} max={16} value={poolCount}
+            onChange={(e) => setPoolCount(Math.max(1, Math.min(16, Number(e.target.value) || 1)))} />
+          <label className="small">Carte per pool</label>
+          <input className="input qty" type="number" min={10} max={120} value={poolSize}
+            onChange={(e) => setPoolSize(Math.max(10, Math.min(120, Number(e.target.value) || 10)))} />
+          <label className="small">Seed</label>
+          <input className="input" style={{ width: 220 }} value={seedText} placeholder="casuale"
+            onChange={(e) => setSeedText(e.target.value)} />
+        </div>
+        <div className="row" style={{ marginTop: 14 }}>
+          <button className="button" disabled={needed > available} onClick={deal}>
+            Distribuisci pool
+          </button>
+          <span className="small muted">Servono {needed} carte, il cubo ne ha {available}.</span>
+        </div>
+        {error && <div className="small" style={{ color: "#fca5a5", marginTop: 10 }}>{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div className="row">
+          {event.pools.map((_, i) => (
+            <button key={i} className={`tab${openIdx === i ? " active" : ""}`} onClick={() => setOpenIdx(i)}>
+              Pool {i + 1}
+            </button>
+          ))}
+        </div>
+        <div className="row">
+          <span className="small muted">Seed: <code>{event.seed}</code></span>
+          <button className="button" onClick={() => exportDeck(openIdx)}>Esporta decklist</button>
+          <button className="button secondary" onClick={() => {
+            if (confirm("Chiudere l'evento sealed? I mazzi costruiti andranno persi.")) setEvent(null);
+          }}>
+            Nuovo evento
+          </button>
+        </div>
+      </div>
+      <hr />
+      <Deckbuilder pool={event.pools[openIdx]} deck={event.decks[openIdx]} onChange={(d) => updateDeck(openIdx, d)} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from "react";
+import { BUCKET_LABELS, COLOR_BUCKETS, colorBucket } from "../lib/analytics";
+import { createCube, loadLibrary } from "../lib/library";
+import { isAbortError } from "../lib/scryfallClient";
+import { decodeShare, resolveShared, type SharedCube, type SharedResolution } from "../lib/share";
+import AnalyticsPanel from "./AnalyticsPanel";
+
+type Props = {
+  encoded: string;
+  onExit: () => void;
+};
+
+/** Read-only view of a cube received through a share link. */
+export default function SharedCubeView({ encoded, onExit }: Props) {
+  const [shared, setShared] = useState<SharedCube | null>(null);
+  const [result, setResult] = useState<SharedResolution | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    setShared(null);
+    setResult(null);
+    setError(null);
+    decodeShare(encoded)
+      .then((cube) => {
+        setShared(cube);
+        setProgress({ done: 0, total: cube.items.length });
+        return resolveShared(cube, (done, total) => setProgress({ done, total }), ctrl.signal);
+      })
+      .then(setResult)
+      .catch((e: any) => {
+        if (!isAbortError(e)) setError(e?.message ?? "Errore apertura link condiviso");
+      })
+      .finally(() => setProgress(null));
+    return () => ctrl.abort();
+  }, [encoded]);
+
+  const groups = useMemo(() => {
+    if (!result) return [];
+    return COLOR_BUCKETS.map((b) => ({
+      bucket: b,
+      entries: result.entries.filter((e) => colorBucket(e) === b).sort((a, c) => (a.cmc ?? 0) - (c.cmc ?? 0) || a.name.localeCompare(c.name))
+    })).filter((g) => g.entries.length > 0);
+  }, [result]);
+
+  const totalCount = result ? result.entries.reduce((acc, e) => acc + e.qty, 0) : 0;
+
+  async function copyToMyCubes() {
+    if (!shared || !result) return;
+    try {
+      await createCube(loadLibrary(), shared.name, shared.description, result.entries);
+      onExit();
+    } catch (e: any) {
+      setError(e?.message ?? "Errore copia del cubo");
+    }
+  }
+
+  return (
+    <div className="container">
+      <div className="header">
+        <h1 className="title">MTG Cube Builder</h1>
+        <span className="badge">Cubo condiviso</span>
+        <span className="badge">Sola lettura</span>
+      </div>
+
+      <div className="card" style={{ marginTop: 14 }}>
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <div>
+            <h2 style={{ margin: 0, fontSize: 20 }}>{shared?.name ?? "Cubo condiviso"}</h2>
+            {shared?.description && <div className="small muted" style={{ marginTop: 4 }}>{shared.description}</div>}
+          </div>
+          <div className="row" style={{ gap: 6 }}>
+            <button className="button" disabled={!result || result.entries.length === 0} onClick={copyToMyCubes}
+              title="Crea un nuovo cubo nella tua libreria con queste carte">
+              Copia nei miei cubi
+            </button>
+            <button className="button secondary" onClick={onExit}>
+              Apri l'app
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="banner" style={{ borderColor: "#5b2630", background: "rgba(59,11,20,0.35)" }}>
+            <span className="badge">Errore</span> <span className="small">{error}</span>
+          </div>
+        )}
+        {progress && (
+          <div className="small" style={{ marginTop: 10 }}>Recupero le carte da Scryfall… {progress.done}/{progress.total}</div>
+        )}
+
+        {result && (
+          <>
+            <div className="row" style={{ justifyContent: "space-between", marginTop: 10 }}>
+              <div className="small">
+                Totale carte (qty): <b>{totalCount}</b> • Righe: <b>{result.entries.length}</b>
+              </div>
+              <button className="button secondary" onClick={() => setShowStats((v) => !v)}>
+                {showStats ? "Nascondi statistiche" : "Statistiche"}
+              </button>
+            </div>
+
+            {result.missing.length > 0 && (
+              <div className="banner" style={{ borderColor: "#5b4a26", background: "rgba(59,44,11,0.35)" }}>
+                <span className="badge">Attenzione</span>{" "}
+                <span className="small">{result.missing.length} stampe non trovate su Scryfall:</span>
+                <ul className="small reportList">
+                  {result.missing.map((m) => (
+                    <li key={`${m.set}|${m.collector_number}`}>{m.set.toUpperCase()} #{m.collector_number}{m.qty > 1 ? ` ×${m.qty}` : ""}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {showStats && (
+              <div className="card" style={{ marginTop: 14 }}>
+                <AnalyticsPanel entries={result.entries} />
+              </div>
+            )}
+
+            {groups.map((g) => (
+              <section key={g.bucket} style={{ marginTop: 14 }}>
+                <div className="small"><b>{BUCKET_LABELS[g.bucket]}</b> ({g.entries.reduce((acc, e) => acc + e.qty, 0)})</div>
+                <div className="printGrid" style={{ marginTop: 6 }}>
+                  {g.entries.map((e) => (
+                    <div key={e.id} className="printItem" title={`${e.name} — ${e.set.toUpperCase()} #${e.collector_number}`}>
+                      {e.thumb ? <img src={e.thumb} alt={e.name} loading="lazy" /> : null}
+                      <span className="small">
+                        {e.qty > 1 && <span className="badge">×{e.qty}</span>} {e.name}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
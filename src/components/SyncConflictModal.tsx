@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import type { CubeEntry } from "../lib/storage";
+import { diffEntries, mergeThreeWay, type EntryDiff } from "../lib/sync";
+
+type Props = {
+  base: CubeEntry[]; // cube as last saved by this tab
+  local: CubeEntry[];
+  remote: CubeEntry[];
+  remoteAt?: number;
+  refreshed?: boolean; // the other tab saved again after this dialog was first shown
+  onResolve: (entries: CubeEntry[], label: string) => void;
+};
+
+const MAX_NAMES = 8;
+
+function names(list: CubeEntry[]) {
+  const shown = list.slice(0, MAX_NAMES).map((e) => e.name).join(", ");
+  return list.length > MAX_NAMES ? `${shown} e altre ${list.length - MAX_NAMES}` : shown;
+}
+
+function DiffSummary({ title, diff }: { title: string; diff: EntryDiff }) {
+  const empty = diff.added.length + diff.removed.length + diff.changed.length === 0;
+  return (
+    <div>
+      <b className="small">{title}</b>
+      {empty ? (
+        <div className="small muted">Nessuna modifica.</div>
+      ) : (
+        <ul className="small reportList">
+          {diff.added.length > 0 && <li>+{diff.added.length} aggiunte: {names(diff.added)}</li>}
+          {diff.removed.length > 0 && <li>−{diff.removed.length} rimosse: {names(diff.removed)}</li>}
+          {diff.changed.length > 0 && <li>{diff.changed.length} modificate: {names(diff.changed.map((c) => c.after))}</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Shown when another tab saved the same cube while this one had unsaved edits. */
+export default function SyncConflictModal({ base, local, remote, remoteAt, refreshed, onResolve }: Props) {
+  const mine = useMemo(() => diffEntries(base, local), [base, local]);
+  const theirs = useMemo(() => diffEntries(base, remote), [base, remote]);
+  const merged = useMemo(() => mergeThreeWay(base, local, remote), [base, local, remote]);
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Conflitto tra schede">
+      <div className="modal">
+        <div className="modalHeader">
+          <div style={{ fontSize: 16 }}><b>Il cubo è stato modificato in un'altra scheda</b></div>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          <div className="small">
+            Un'altra scheda ha salvato questo cubo{remoteAt ? ` alle ${new Date(remoteAt).toLocaleTimeString()}` : ""} mentre qui c'erano
+            modifiche non ancora salvate. Scegli come procedere: nessuna delle due versioni viene sovrascritta finché non decidi.
+          </div>
+          {refreshed && (
+            <div className="small" style={{ color: "#fcd34d" }}>
+              L'altra scheda ha salvato di nuovo mentre sceglievi: il confronto qui sotto è aggiornato, scegli di nuovo come procedere.
+            </div>
+          )}
+          <DiffSummary title="In questa scheda" diff={mine} />
+          <DiffSummary title="Nell'altra scheda" diff={theirs} />
+          {merged.overlaps.length > 0 && (
+            <div className="small" style={{ color: "#fcd34d" }}>
+              Modificate in entrambe: {merged.overlaps.join(", ")}. Unendo, le quantità aggiunte o tolte nelle due schede si sommano.
+            </div>
+          )}
+        </div>
+
+        <div className="modalActions">
+          <button className="button secondary" onClick={() => onResolve(remote, "Tenuta la versione dell'altra scheda")}>
+            Usa l'altra scheda
+          </button>
+          <button className="button secondary" onClick={() => onResolve(local, "Tenuta la versione di questa scheda")}>
+            Tieni questa scheda
+          </button>
+          <button className="button" onClick={() => onResolve(merged.entries, "Unite le modifiche di due schede")}>
+            Unisci ({merged.entries.length} righe)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
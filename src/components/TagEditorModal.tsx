@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { mergeTags } from "../lib/tags";
+import type { CubeEntry } from "../lib/storage";
+import TagInput from "./TagInput";
+
+type Props = {
+  entry: CubeEntry;
+  knownTags: string[];
+  onSave: (tags: string[], notes: string) => void;
+  onClose: () => void;
+};
+
+export default function TagEditorModal({ entry, knownTags, onSave, onClose }: Props) {
+  const [tags, setTags] = useState<string[]>(entry.tags ?? []);
+  const [notes, setNotes] = useState(entry.notes ?? "");
+
+  return (
+    <div className="modalOverlay" role="dialog" aria-modal="true" aria-label="Tag e note" onMouseDown={(e) => {
+      if (e.target === e.currentTarget) onClose();
+    }}>
+      <div className="modal" style={{ width: "min(560px, 100%)" }} onMouseDown={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+            <div style={{ fontSize: 16 }}><b>{entry.name}</b></div>
+            <div className="small muted">Tag e note del designer</div>
+          </div>
+          <button className="button secondary" onClick={onClose}>
+            Chiudi
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: "grid", gap: 12 }}>
+          <div className="row chips">
+            {tags.length === 0 && <span className="small muted">Nessun tag.</span>}
+            {tags.map((t) => (
+              <button key={t} className="chip on" onClick={() => setTags(tags.filter((x) => x !== t))} title="Rimuovi tag">
+                {t} ×
+              </button>
+            ))}
+          </div>
+          <div className="row">
+            <TagInput suggestions={knownTags.filter((t) => !tags.includes(t))} onAdd={(add) => setTags((prev) => mergeTags(prev, add))} commitOnBlur />
+          </div>
+          <label className="small" htmlFor="entry-notes">Note</label>
+          <textarea
+            id="entry-notes"
+            className="input"
+            rows={4}
+            value={notes}
+            placeholder="es. signpost UR spells, valutare taglio se troppo forte"
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="modalActions">
+          <button className="button secondary" onClick={onClose}>
+            Annulla
+          </button>
+          <button className="button" onClick={() => onSave(tags, notes)}>
+            Salva
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useId, useState } from "react";
+import { parseTags } from "../lib/tags";
+
+type Props = {
+  suggestions: string[];
+  onAdd: (tags: string[]) => void;
+  placeholder?: string;
+  commitOnBlur?: boolean;
+};
+
+/** Text field with autocomplete over existing tags; Enter (or comma-separated input) adds tags. */
+export default function TagInput({ suggestions, onAdd, placeholder = "Aggiungi tag…", commitOnBlur = false }: Props) {
+  const [value, setValue] = useState("");
+  const listId = useId();
+
+  function commit() {
+    const tags = parseTags(value);
+    if (tags.length === 0) return;
+    onAdd(tags);
+    setValue("");
+  }
+
+  return (
+    <>
+      <input
+        className="input"
+        style={{ width: 200 }}
+        list={listId}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        onBlur={commitOnBlur ? commit : undefined}
+      />
+      <datalist id={listId}>
+        {suggestions.map((t) => <option key={t} value={t} />)}
+      </datalist>
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { faceTypeLines } from "./faces";
+import type { CubeEntry } from "./storage";
+
+export const COLORS = ["W", "U", "B", "R", "G"] as const;
+
+/** Color buckets used across the dashboard: the five colors, multicolor and colorless. */
+export const COLOR_BUCKETS = ["W", "U", "B", "R", "G", "M", "C"] as const;
+export type ColorBucket = (typeof COLOR_BUCKETS)[number];
+
+export const BUCKET_LABELS: Record<ColorBucket, string> = {
+  W: "Bianco",
+  U: "Blu",
+  B: "Nero",
+  R: "Rosso",
+  G: "Verde",
+  M: "Multicolore",
+  C: "Incolore"
+};
+
+const GUILDS: Record<string, string> = {
+  WU: "Azorius",
+  UB: "Dimir",
+  BR: "Rakdos",
+  RG: "Gruul",
+  WG: "Selesnya",
+  WB: "Orzhov",
+  UR: "Izzet",
+  BG: "Golgari",
+  WR: "Boros",
+  UG: "Simic"
+};
+
+export const RARITIES = ["common", "uncommon", "rare", "mythic"] as const;
+
+/** Curve columns: 0..6 and "7+". */
+export const CURVE_MAX = 7;
+
+export type CubeStats = {
+  total: number;
+  byBucket: Record<ColorBucket, number>;
+  byGuild: Array<{ key: string; label: string; count: number }>;
+  curve: Record<ColorBucket, number[]>; // nonland cards, index = cmc (last = 7+)
+  creatures: Record<ColorBucket, { creature: number; noncreature: number }>;
+  rarity: Record<string, number>;
+  lands: { total: number; basic: number; nonbasic: number; fixing: number; nonlandFixing: number; mdfc: number };
+};
+
+type TypedEntry = Pick<CubeEntry, "name" | "type_line" | "faces">;
+
+function sortColors(ci: string[]): string {
+  return COLORS.filter((c) => ci.includes(c)).join("");
+}
+
+export function colorBucket(e: Pick<CubeEntry, "color_identity">): ColorBucket {
+  const ci = e.color_identity ?? [];
+  if (ci.length === 0) return "C";
+  if (ci.length > 1) return "M";
+  return ci[0] as ColorBucket;
+}
+
+function frontType(e: TypedEntry): string {
+  return faceTypeLines(e)[0];
+}
+
+/** The front face is a land (how the card is cast/played by default). */
+export function isLand(e: TypedEntry): boolean {
+  return /\bLand\b/.test(frontType(e));
+}
+
+/** Any face is a land: includes spell // land modal double-faced cards. */
+export function hasLandFace(e: TypedEntry): boolean {
+  return faceTypeLines(e).some((t) => /\bLand\b/.test(t));
+}
+
+export function isCreature(e: TypedEntry): boolean {
+  return /\bCreature\b/.test(frontType(e));
+}
+
+export const CARD_TYPES = [
+  "Creature",
+  "Planeswalker",
+  "Instant",
+  "Sorcery",
+  "Artifact",
+  "Enchantment",
+  "Battle",
+  "Land",
+  "Other"
+] as const;
+export type CardType = (typeof CARD_TYPES)[number];
+
+function typeOfLine(typeLine: string): CardType {
+  if (/\bLand\b/.test(typeLine)) return "Land";
+  if (/\bCreature\b/.test(typeLine)) return "Creature";
+  for (const t of CARD_TYPES) {
+    if (new RegExp(`\\b${t}\\b`).test(typeLine)) return t;
+  }
+  return "Other";
+}
+
+/** Main type used for grouping, from the front face: lands and creatures win over artifact/enchantment. */
+export function primaryType(e: TypedEntry): CardType {
+  return typeOfLine(frontType(e));
+}
+
+/**
+ * Any face has the type, so an Artifact Creature matches both "Artifact" and "Creature".
+ * "Other" matches faces with none of the listed types.
+ */
+export function hasCardType(e: TypedEntry, type: CardType): boolean {
+  const re = new RegExp(`\\b${type}\\b`);
+  return faceTypeLines(e).some((line) => (type === "Other" ? typeOfLine(line) === "Other" : re.test(line)));
+}
+
+function producesColors(e: CubeEntry): number {
+  if (e.produced_mana) return e.produced_mana.filter((m) => m !== "C").length;
+  // Entries saved before produced_mana was captured: fall back to identity for lands
+  return isLand(e) ? (e.color_identity ?? []).length : 0;
+}
+
+function emptyByBucket<T>(make: () => T): Record<ColorBucket, T> {
+  return Object.fromEntries(COLOR_BUCKETS.map((b) => [b, make()])) as Record<ColorBucket, T>;
+}
+
+/** Compute all dashboard breakdowns. Every count is weighted by qty. */
+export function computeStats(entries: CubeEntry[]): CubeStats {
+  const byBucket = emptyByBucket(() => 0);
+  const curve = emptyByBucket(() => new Array<number>(CURVE_MAX + 1).fill(0));
+  const creatures = emptyByBucket(() => ({ creature: 0, noncreature: 0 }));
+  const guilds = new Map<string, number>();
+  const rarity: Record<string, number> = {};
+  const lands = { total: 0, basic: 0, nonbasic: 0, fixing: 0, nonlandFixing: 0, mdfc: 0 };
+  let total = 0;
+
+  for (const e of entries) {
+    const q = e.qty;
+    const bucket = colorBucket(e);
+    total += q;
+    byBucket[bucket] += q;
+    rarity[e.rarity] = (rarity[e.rarity] ?? 0) + q;
+
+    const ci = sortColors(e.color_identity ?? []);
+    if (ci.length >= 2) {
+      const key = ci.length === 2 ? ci : "3+";
+      guilds.set(key, (guilds.get(key) ?? 0) + q);
+    }
+
+    const fixing = producesColors(e) >= 2;
+    if (isLand(e)) {
+      lands.total += q;
+      if (/\bBasic\b/.test(e.type_line)) lands.basic += q;
+      else lands.nonbasic += q;
+      if (fixing) lands.fixing += q;
+      continue;
+    }
+    if (fixing) lands.nonlandFixing += q;
+    // Spell // land: a land slot as well as a spell on the curve
+    if (hasLandFace(e)) {
+      lands.total += q;
+      lands.nonbasic += q;
+      lands.mdfc += q;
+    }
+
+    const cmc = Math.min(CURVE_MAX, Math.max(0, Math.floor(e.cmc ?? 0)));
+    curve[bucket][cmc] += q;
+    if (isCreature(e)) creatures[bucket].creature += q;
+    else creatures[bucket].noncreature += q;
+  }
+
+  const byGuild = Array.from(guilds.entries())
+    .map(([key, count]) => ({ key, label: GUILDS[key] ?? "3+ colori", count }))
+    .sort((a, b) => b.count - a.count);
+
+  return { total, byBucket, byGuild, curve, creatures, rarity, lands };
+}
@@ -1,55 +1,233 @@
+import { dataStore, writeError } from "./dataStore";
+import { parseCubeJsonValue } from "./importer";
+import { migrateEntries, SCHEMA_VERSION } from "./schema";
 import type { CubeEntry } from "./storage";
+import { entryKey } from "./sync";
 
 const BACKUP_PREFIX = "mtg_cube_backup_v1_";
 const BACKUP_COUNT_KEY = "mtg_cube_backup_count_v1";
+const SNAPSHOTS_KEY = "mtg_cube_snapshots_v1";
+const SNAPSHOT_KEY = "mtg_cube_snapshot_v1";
+const LEGACY_SLOTS = 10;
+const FILE_FORMAT = "mtg-cube-snapshot";
 
-export type BackupInfo = {
-  key: string;
-  index: number;
-  updated_at: number;
-  size: number;
+/**
+ * Snapshots of a cube: automatic ones rotate, manual (named) and pinned ones
+ * are kept until deleted. The list of a cube is one small record; each
+ * snapshot's entries are stored under their own key.
+ */
+export type SnapshotKind = "auto" | "manual";
+
+export type SnapshotInfo = {
+  id: string;
+  kind: SnapshotKind;
+  name?: string;
+  created_at: number; // epoch ms
+  pinned: boolean;
+  rows: number;
+  count: number; // total qty
+  version?: number; // schema version of the entries; 1 when missing
+};
+
+type SnapshotFile = {
+  format: typeof FILE_FORMAT;
+  version: number; // schema version of the entries
+  name?: string;
+  cube_name?: string;
+  created_at: number;
+  entries: CubeEntry[];
 };
 
-export function rotateBackups(entries: CubeEntry[], keep: number) {
-  const k = Math.max(1, Math.min(keep, 10));
-  // Determine next slot
-  const rawCount = localStorage.getItem(BACKUP_COUNT_KEY);
-  const count = rawCount ? Number(rawCount) : 0;
-  const next = (Number.isFinite(count) ? count : 0) + 1;
+function listKey(cubeId: string) {
+  return `${SNAPSHOTS_KEY}__${cubeId}`;
+}
 
-  const slot = ((next - 1) % k) + 1; // 1..k
-  const key = `${BACKUP_PREFIX}${slot}`;
+function dataKey(cubeId: string, snapshotId: string) {
+  return `${SNAPSHOT_KEY}__${cubeId}__${snapshotId}`;
+}
 
-  const payload = JSON.stringify({
-    updated_at: Date.now(),
-    entries
+function newSnapshotId(): string {
+  return `snap_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function sortList(list: unknown): SnapshotInfo[] {
+  return Array.isArray(list) ? (list as SnapshotInfo[]).slice().sort((a, b) => b.created_at - a.created_at) : [];
+}
+
+/** Snapshots of a cube, newest first. */
+export async function listSnapshots(cubeId: string): Promise<SnapshotInfo[]> {
+  const store = await dataStore();
+  return sortList(await store.get<SnapshotInfo[]>(listKey(cubeId)).catch(() => undefined));
+}
+
+/**
+ * Change the list in one atomic read-modify-write: autosave rotation, edits in
+ * the backup manager and other tabs can run at the same time without losing
+ * each other's changes.
+ */
+async function updateList(cubeId: string, fn: (list: SnapshotInfo[]) => SnapshotInfo[]): Promise<SnapshotInfo[]> {
+  const store = await dataStore();
+  try {
+    return await store.update<SnapshotInfo[]>(listKey(cubeId), (prev) => fn(sortList(prev)));
+  } catch (e) {
+    throw writeError(e, "l'elenco dei backup");
+  }
+}
+
+export async function loadSnapshot(cubeId: string, snapshotId: string): Promise<CubeEntry[]> {
+  const store = await dataStore();
+  const info = (await listSnapshots(cubeId)).find((s) => s.id === snapshotId);
+  const entries = await store.get<unknown>(dataKey(cubeId, snapshotId));
+  if (!info || !Array.isArray(entries)) throw new Error("Backup non trovato");
+  return migrateEntries(entries, info.version, "Il backup");
+}
+
+export async function createSnapshot(
+  cubeId: string,
+  entries: CubeEntry[],
+  kind: SnapshotKind,
+  name?: string,
+  created_at = Date.now()
+): Promise<SnapshotInfo> {
+  const store = await dataStore();
+  const info: SnapshotInfo = {
+    id: newSnapshotId(),
+    kind,
+    name: name?.trim() || undefined,
+    created_at,
+    pinned: false,
+    rows: entries.length,
+    count: entries.reduce((acc, e) => acc + e.qty, 0),
+    version: SCHEMA_VERSION
+  };
+  try {
+    await store.set(dataKey(cubeId, info.id), entries);
+  } catch (e) {
+    throw writeError(e, "il backup");
+  }
+  try {
+    await updateList(cubeId, (list) => [info, ...list]);
+  } catch (e) {
+    // Do not leave data that no list entry points to
+    await store.remove(dataKey(cubeId, info.id)).catch(() => undefined);
+    throw e;
+  }
+  return info;
+}
+
+export async function deleteSnapshot(cubeId: string, snapshotId: string) {
+  const store = await dataStore();
+  await updateList(cubeId, (list) => list.filter((s) => s.id !== snapshotId));
+  await store.remove(dataKey(cubeId, snapshotId));
+}
+
+export async function updateSnapshot(cubeId: string, snapshotId: string, patch: Partial<Pick<SnapshotInfo, "name" | "pinned">>) {
+  await updateList(cubeId, (list) =>
+    list.map((s) => (s.id === snapshotId ? { ...s, ...patch, name: "name" in patch ? patch.name?.trim() || undefined : s.name } : s))
+  );
+}
+
+/** Take an automatic snapshot and evict the oldest unpinned automatic ones beyond `keep`. */
+export async function rotateBackups(cubeId: string, entries: CubeEntry[], keep: number) {
+  const store = await dataStore();
+  await createSnapshot(cubeId, entries, "auto");
+  // Pick the evicted ones inside the same update, so a pin made meanwhile is respected
+  let evicted: SnapshotInfo[] = [];
+  await updateList(cubeId, (list) => {
+    const autos = list.filter((s) => s.kind === "auto" && !s.pinned);
+    evicted = autos.slice(Math.max(1, keep));
+    return list.filter((s) => !evicted.includes(s));
   });
+  for (const old of evicted) await store.remove(dataKey(cubeId, old.id));
+}
 
-  localStorage.setItem(key, payload);
-  localStorage.setItem(BACKUP_COUNT_KEY, String(next));
+export async function deleteBackups(cubeId: string) {
+  const store = await dataStore();
+  for (const s of await listSnapshots(cubeId)) await store.remove(dataKey(cubeId, s.id));
+  await store.remove(listKey(cubeId));
 }
 
-export function listBackups(keep: number): BackupInfo[] {
-  const k = Math.max(1, Math.min(keep, 10));
-  const out: BackupInfo[] = [];
-  for (let i = 1; i <= k; i++) {
-    const key = `${BACKUP_PREFIX}${i}`;
+/**
+ * Restore only the selected cards (by id, or name) from a snapshot: each one
+ * gets the snapshot's version, or is removed when the snapshot does not have it.
+ */
+export function restorePartial(current: CubeEntry[], snapshot: CubeEntry[], keys: Set<string>): CubeEntry[] {
+  const fromSnap = new Map(snapshot.filter((e) => keys.has(entryKey(e))).map((e) => [entryKey(e), e]));
+  const out: CubeEntry[] = [];
+  for (const e of current) {
+    const key = entryKey(e);
+    if (!keys.has(key)) out.push(e);
+    else if (fromSnap.has(key)) {
+      out.push(fromSnap.get(key)!);
+      fromSnap.delete(key);
+    }
+  }
+  return [...out, ...fromSnap.values()];
+}
+
+export function snapshotToJson(info: SnapshotInfo, entries: CubeEntry[], cubeName: string): string {
+  const file: SnapshotFile = { format: FILE_FORMAT, version: SCHEMA_VERSION, name: info.name, cube_name: cubeName, created_at: info.created_at, entries };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Read a snapshot file (migrated like a cube JSON); a plain cube JSON export is accepted too. */
+export function parseSnapshotJson(text: string): { name?: string; created_at?: number; entries: CubeEntry[] } {
+  let raw: Partial<SnapshotFile>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Il file non è un JSON valido.");
+  }
+  const entries = parseCubeJsonValue(raw);
+  if (raw?.format !== FILE_FORMAT) return { entries };
+  return {
+    name: typeof raw.name === "string" ? raw.name : typeof raw.cube_name === "string" ? raw.cube_name : undefined,
+    created_at: typeof raw.created_at === "number" ? raw.created_at : undefined,
+    entries
+  };
+}
+
+// Slots written before IndexedDB: mtg_cube_backup_v1_<cubeId>_<slot>
+function slotKey(cubeId: string, slot: number) {
+  return `${BACKUP_PREFIX}${cubeId}_${slot}`;
+}
+
+function countKey(cubeId: string) {
+  return `${BACKUP_COUNT_KEY}__${cubeId}`;
+}
+
+/** Turn a cube's old localStorage backup slots into automatic snapshots. */
+export async function migrateLegacyBackupSlots(cubeId: string) {
+  for (let i = 1; i <= LEGACY_SLOTS; i++) {
+    const key = slotKey(cubeId, i);
     const raw = localStorage.getItem(key);
-    if (!raw) continue;
+    if (raw === null) continue;
+    let parsed: { updated_at?: number; entries?: unknown } | null;
     try {
-      const parsed = JSON.parse(raw) as { updated_at: number; entries: unknown };
-      out.push({ key, index: i, updated_at: parsed.updated_at ?? 0, size: raw.length });
+      parsed = JSON.parse(raw);
     } catch {
-      // ignore corrupted backup
+      parsed = null; // corrupted slot, nothing to keep
+    }
+    if (Array.isArray(parsed?.entries)) {
+      await createSnapshot(cubeId, migrateEntries(parsed!.entries, 1, "Il backup"), "auto", undefined, parsed!.updated_at ?? 0);
     }
+    localStorage.removeItem(key);
   }
-  return out.sort((a, b) => b.updated_at - a.updated_at);
+  localStorage.removeItem(countKey(cubeId));
 }
 
-export function restoreBackup(key: string): CubeEntry[] {
-  const raw = localStorage.getItem(key);
-  if (!raw) throw new Error("Backup non trovato");
-  const parsed = JSON.parse(raw) as { updated_at: number; entries: CubeEntry[] };
-  if (!Array.isArray(parsed.entries)) throw new Error("Backup non valido");
-  return parsed.entries;
+/** Move the legacy global ring (mtg_cube_backup_v1_1..10) under the given cube id. */
+export function moveLegacyBackups(cubeId: string) {
+  for (let i = 1; i <= LEGACY_SLOTS; i++) {
+    const legacyKey = `${BACKUP_PREFIX}${i}`;
+    const raw = localStorage.getItem(legacyKey);
+    if (raw === null) continue;
+    localStorage.setItem(slotKey(cubeId, i), raw);
+    localStorage.removeItem(legacyKey);
+  }
+  const count = localStorage.getItem(BACKUP_COUNT_KEY);
+  if (count !== null) {
+    localStorage.setItem(countKey(cubeId), count);
+    localStorage.removeItem(BACKUP_COUNT_KEY);
+  }
 }
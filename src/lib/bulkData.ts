@@ -0,0 +1,402 @@
+import { idbDelete, idbGet, idbPut, openDb } from "./idb";
+import type { CardIdentifier, CollectionResult, ScryfallCard } from "./scryfall";
+import { ScryfallError } from "./scryfallClient";
+
+/**
+ * Offline card data from a Scryfall bulk-data file ("Oracle Cards" or
+ * "Default Cards" JSON). Cards are slimmed to the fields the app uses and
+ * kept in IndexedDB; metadata lives in localStorage so the UI can show the
+ * data source synchronously at startup.
+ */
+
+const DB_NAME = "mtg_cube_bulk_v1";
+const STORE = "bulk";
+const CARDS_KEY = "cards";
+const META_KEY = "mtg_cube_bulk_meta_v1";
+const PREFS_KEY = "mtg_cube_datasource_v1";
+
+export type BulkMeta = {
+  file_name: string;
+  kind: string; // "oracle_cards", "default_cards", … parsed from the file name
+  generated_at: string; // ISO date of the bulk export
+  imported_at: string;
+  count: number;
+};
+
+export type DataSourcePrefs = {
+  offlineOnly: boolean; // use the local index even when the network is available
+};
+
+export type BulkIndex = {
+  meta: BulkMeta;
+  byId: Map<string, ScryfallCard>;
+  bySetNumber: Map<string, ScryfallCard>; // "set|collector_number"
+  byName: Map<string, ScryfallCard[]>; // normalized full and front-face name -> printings, newest first
+  names: Array<{ name: string; norm: string }>; // unique display names, sorted
+};
+
+// Not real cards: Scryfall autocomplete hides these too
+const SKIP_LAYOUTS = new Set(["art_series", "token", "double_faced_token", "emblem", "vanguard", "scheme", "planar"]);
+
+const AUTOCOMPLETE_MAX = 20;
+
+export function normalizeName(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/æ/g, "ae")
+    .replace(/[^a-z0-9/ ]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function slimImages(u: any): ScryfallCard["image_uris"] {
+  return u ? { small: u.small, normal: u.normal } : undefined;
+}
+
+/** Keep only the fields of a bulk card the app reads. */
+function slimCard(c: any): ScryfallCard {
+  return {
+    id: c.id,
+    name: c.name,
+    set: c.set,
+    set_name: c.set_name,
+    collector_number: c.collector_number,
+    rarity: c.rarity,
+    type_line: c.type_line ?? c.card_faces?.map((f: any) => f.type_line).join(" // ") ?? "",
+    mana_cost: c.mana_cost,
+    cmc: c.cmc,
+    color_identity: c.color_identity,
+    produced_mana: c.produced_mana,
+    mtgo_id: c.mtgo_id,
+    arena_id: c.arena_id,
+    released_at: c.released_at,
+    prices: c.prices ? { usd: c.prices.usd, usd_foil: c.prices.usd_foil, eur: c.prices.eur, eur_foil: c.prices.eur_foil } : undefined,
+    scryfall_uri: c.scryfall_uri,
+    image_uris: slimImages(c.image_uris),
+    layout: c.layout,
+    card_faces: Array.isArray(c.card_faces)
+      ? c.card_faces.map((f: any) => ({ name: f.name, mana_cost: f.mana_cost, type_line: f.type_line, image_uris: slimImages(f.image_uris) }))
+      : undefined
+  };
+}
+
+/** "oracle-cards-20241019090000.json" -> kind and generation date. */
+function describeFile(fileName: string, lastModified: number): Pick<BulkMeta, "kind" | "generated_at"> {
+  const m = /^([a-z-]+?)-(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?/i.exec(fileName);
+  if (!m) return { kind: "unknown", generated_at: new Date(lastModified).toISOString() };
+  const [, kind, y, mo, d, h = "00", mi = "00"] = m;
+  return { kind: kind.toLowerCase().replace(/-/g, "_"), generated_at: new Date(`${y}-${mo}-${d}T${h}:${mi}:00Z`).toISOString() };
+}
+
+type BulkProgress = (read: number, total: number) => void;
+
+/** A bulk card kept by the import: English cards only; tokens and art series are dropped. */
+function keepCard(c: any): boolean {
+  if (c?.object !== "card" || typeof c.id !== "string" || typeof c.name !== "string") return false;
+  if (c.lang && c.lang !== "en") return false;
+  return !SKIP_LAYOUTS.has(c.layout);
+}
+
+const INVALID_FILE = "File non valido: serve un file JSON di bulk data di Scryfall.";
+
+/**
+ * Split the text of a JSON array of objects into the source of each object,
+ * chunk by chunk, so a file of hundreds of MB is never held (or parsed) whole.
+ */
+export function bulkObjectSplitter(onObject: (json: string) => void) {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let seenArray = false;
+  let partial = ""; // start of an object cut by the previous chunk
+  return {
+    push(chunk: string) {
+      let start = depth > 0 ? 0 : -1;
+      for (let i = 0; i < chunk.length; i++) {
+        const ch = chunk.charCodeAt(i);
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === 92) escaped = true; // backslash
+          else if (ch === 34) inString = false; // quote
+          continue;
+        }
+        if (depth === 0) {
+          if (ch === 91 && !seenArray) seenArray = true; // [
+          else if (ch === 123 && seenArray) {
+            depth = 1;
+            start = i;
+          } else if (!(ch === 44 || ch === 93 || ch === 32 || ch === 10 || ch === 13 || ch === 9 || ch === 0xfeff)) {
+            throw new Error("File non valido: atteso un array di carte (bulk data Scryfall).");
+          }
+          continue;
+        }
+        if (ch === 34) inString = true;
+        else if (ch === 123) depth++;
+        else if (ch === 125 && --depth === 0) {
+          onObject(partial + chunk.slice(start, i + 1));
+          partial = "";
+          start = -1;
+        }
+      }
+      if (depth > 0) partial += chunk.slice(start);
+    },
+    end() {
+      if (!seenArray) throw new Error("File non valido: atteso un array di carte (bulk data Scryfall).");
+      if (depth !== 0) throw new Error("File incompleto: il JSON di bulk data si interrompe a metà.");
+    }
+  };
+}
+
+/** Read a bulk file as a stream and keep the slimmed cards; memory stays proportional to the cards kept. */
+export async function parseBulkStream(stream: ReadableStream<Uint8Array>, size: number, onProgress?: BulkProgress): Promise<ScryfallCard[]> {
+  const cards: ScryfallCard[] = [];
+  const splitter = bulkObjectSplitter((json) => {
+    let c: unknown;
+    try {
+      c = JSON.parse(json);
+    } catch {
+      throw new Error(INVALID_FILE);
+    }
+    if (keepCard(c)) cards.push(slimCard(c));
+  });
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let read = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    read += value.byteLength;
+    splitter.push(decoder.decode(value, { stream: true }));
+    onProgress?.(read, size);
+  }
+  splitter.push(decoder.decode());
+  splitter.end();
+  return cards;
+}
+
+type WorkerMessage = { type: "progress"; read: number; total: number } | { type: "done"; cards: ScryfallCard[] } | { type: "error"; message: string };
+
+/** Parse in a Worker so the page stays responsive; the main thread is the fallback. */
+function parseInWorker(file: File, onProgress?: BulkProgress): Promise<ScryfallCard[]> {
+  if (typeof Worker === "undefined") return parseBulkStream(file.stream(), file.size, onProgress);
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./bulkWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (ev: MessageEvent<WorkerMessage>) => {
+      const msg = ev.data;
+      if (msg.type === "progress") return onProgress?.(msg.read, msg.total);
+      worker.terminate();
+      if (msg.type === "done") resolve(msg.cards);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (ev) => {
+      worker.terminate();
+      reject(new Error(ev.message || "Errore lettura del file bulk"));
+    };
+    worker.postMessage(file);
+  });
+}
+
+/** Read a Scryfall bulk file (any size) into slimmed cards and their metadata. */
+export async function readBulkFile(file: File, onProgress?: BulkProgress): Promise<{ meta: BulkMeta; cards: ScryfallCard[] }> {
+  const cards = await parseInWorker(file, onProgress);
+  if (cards.length === 0) throw new Error("Nessuna carta trovata nel file.");
+  return {
+    meta: { file_name: file.name, ...describeFile(file.name, file.lastModified), imported_at: new Date().toISOString(), count: cards.length },
+    cards
+  };
+}
+
+export function buildIndex(meta: BulkMeta, cards: ScryfallCard[]): BulkIndex {
+  const byId = new Map<string, ScryfallCard>();
+  const bySetNumber = new Map<string, ScryfallCard>();
+  const byName = new Map<string, ScryfallCard[]>();
+  const display = new Map<string, string>();
+
+  const addName = (key: string, c: ScryfallCard) => {
+    const list = byName.get(key) ?? [];
+    list.push(c);
+    byName.set(key, list);
+  };
+
+  for (const c of cards) {
+    byId.set(c.id, c);
+    bySetNumber.set(`${c.set}|${c.collector_number}`, c);
+    const full = normalizeName(c.name);
+    addName(full, c);
+    const front = c.name.split(" // ")[0];
+    if (front !== c.name) addName(normalizeName(front), c);
+    display.set(full, c.name);
+  }
+  for (const list of byName.values()) list.sort((a, b) => (b.released_at ?? "").localeCompare(a.released_at ?? ""));
+
+  const names = Array.from(display.entries())
+    .map(([norm, name]) => ({ name, norm }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return { meta, byId, bySetNumber, byName, names };
+}
+
+export function loadBulkMeta(): BulkMeta | null {
+  try {
+    const raw = localStorage.getItem(META_KEY);
+    return raw ? (JSON.parse(raw) as BulkMeta) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadDataSourcePrefs(): DataSourcePrefs {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    return { offlineOnly: false, ...(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return { offlineOnly: false };
+  }
+}
+
+export function saveDataSourcePrefs(p: DataSourcePrefs) {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(p));
+}
+
+/** Store a parsed bulk file, replacing any previous one. */
+export async function saveBulk(meta: BulkMeta, cards: ScryfallCard[]): Promise<void> {
+  const db = await openDb(DB_NAME, 1, [STORE]);
+  try {
+    await idbPut(db, STORE, CARDS_KEY, cards);
+  } catch (e: any) {
+    throw new Error(e?.name === "QuotaExceededError" ? "Spazio del browser esaurito: impossibile salvare i dati offline." : e?.message ?? "Errore salvataggio dati offline");
+  } finally {
+    db.close();
+  }
+  localStorage.setItem(META_KEY, JSON.stringify(meta));
+}
+
+/** Read the stored bulk file back into an index; null when none was imported. */
+export async function loadBulkIndex(): Promise<BulkIndex | null> {
+  const meta = loadBulkMeta();
+  if (!meta) return null;
+  const db = await openDb(DB_NAME, 1, [STORE]);
+  try {
+    const cards = await idbGet<ScryfallCard[]>(db, STORE, CARDS_KEY);
+    if (cards) return buildIndex(meta, cards);
+    localStorage.removeItem(META_KEY); // metadata without data (e.g. site data partially cleared)
+    return null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteBulk(): Promise<void> {
+  localStorage.removeItem(META_KEY);
+  const db = await openDb(DB_NAME, 1, [STORE]);
+  try {
+    await idbDelete(db, STORE, CARDS_KEY);
+  } finally {
+    db.close();
+  }
+}
+
+/** Whole days since the bulk file was generated by Scryfall. */
+export function bulkAgeDays(meta: BulkMeta, now = Date.now()): number {
+  return Math.max(0, Math.floor((now - Date.parse(meta.generated_at)) / 86_400_000));
+}
+
+// --- Lookups mirroring the online endpoints ---
+
+/** Like /cards/autocomplete: name prefix matches first, then word prefixes, then substrings. */
+export function localAutocomplete(index: BulkIndex, q: string): string[] {
+  const n = normalizeName(q);
+  if (n.length < 2) return [];
+  const prefix: string[] = [];
+  const word: string[] = [];
+  const inner: string[] = [];
+  for (const { name, norm } of index.names) {
+    if (norm.startsWith(n)) prefix.push(name);
+    else if (norm.includes(` ${n}`)) word.push(name);
+    else if (norm.includes(n)) inner.push(name);
+    if (prefix.length >= AUTOCOMPLETE_MAX) break;
+  }
+  return [...prefix, ...word, ...inner].slice(0, AUTOCOMPLETE_MAX);
+}
+
+function notFound(name: string): ScryfallError {
+  return new ScryfallError("not_found", `Carta non trovata nei dati offline: "${name}"`, 404);
+}
+
+export function localExact(index: BulkIndex, name: string): ScryfallCard {
+  const hit = index.byName.get(normalizeName(name))?.[0];
+  if (!hit) throw notFound(name);
+  return hit;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Like /cards/named?fuzzy: exact, then names containing every word of the
+ * query, then the closest name by edit distance. Several equally good
+ * candidates throw an "ambiguous" error, as Scryfall does.
+ */
+export function localFuzzy(index: BulkIndex, name: string): ScryfallCard {
+  const n = normalizeName(name);
+  const exact = index.byName.get(n)?.[0];
+  if (exact) return exact;
+
+  const words = n.split(" ").filter(Boolean);
+  if (words.length === 0) throw notFound(name);
+  const containing = index.names.filter((x) => words.every((w) => x.norm.includes(w)));
+  if (containing.length === 1) return localExact(index, containing[0].name);
+  if (containing.length > 1) {
+    throw new ScryfallError("ambiguous", `Nome ambiguo: "${name}" corrisponde a più carte (${containing.slice(0, 3).map((x) => x.name).join(", ")}…)`, 404);
+  }
+
+  const maxDist = Math.max(1, Math.floor(n.length / 4));
+  let best: string[] = [];
+  let bestDist = maxDist + 1;
+  for (const x of index.names) {
+    if (Math.abs(x.norm.length - n.length) > maxDist) continue;
+    const d = editDistance(n, x.norm);
+    if (d < bestDist) {
+      bestDist = d;
+      best = [x.name];
+    } else if (d === bestDist) {
+      best.push(x.name);
+    }
+  }
+  if (best.length === 1) return localExact(index, best[0]);
+  if (best.length > 1) throw new ScryfallError("ambiguous", `Nome ambiguo: "${name}" corrisponde a più carte (${best.slice(0, 3).join(", ")})`, 404);
+  throw notFound(name);
+}
+
+/** Every printing of a card in the index, newest first (a single one with Oracle Cards). */
+export function localPrints(index: BulkIndex, name: string): ScryfallCard[] {
+  return index.byName.get(normalizeName(name)) ?? [];
+}
+
+/** Like /cards/collection for the identifier shapes the app sends. */
+export function localCollection(index: BulkIndex, identifiers: CardIdentifier[]): CollectionResult {
+  const data: ScryfallCard[] = [];
+  const not_found: CardIdentifier[] = [];
+  for (const ident of identifiers) {
+    let hit: ScryfallCard | undefined;
+    if ("id" in ident) hit = index.byId.get(ident.id);
+    else if ("collector_number" in ident) hit = index.bySetNumber.get(`${ident.set.toLowerCase()}|${ident.collector_number}`);
+    else {
+      const prints = index.byName.get(normalizeName(ident.name)) ?? [];
+      hit = ident.set ? prints.find((c) => c.set === ident.set!.toLowerCase()) : prints[0];
+    }
+    if (hit) data.push(hit);
+    else not_found.push(ident);
+  }
+  return { data, not_found };
+}
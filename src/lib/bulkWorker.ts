@@ -0,0 +1,20 @@
+import { parseBulkStream } from "./bulkData";
+
+// Worker side of readBulkFile: stream-parse the file off the main thread
+const ctx = self as unknown as { postMessage(msg: unknown): void; onmessage: ((ev: MessageEvent<File>) => void) | null };
+
+ctx.onmessage = async (ev) => {
+  const file = ev.data;
+  let last = 0;
+  try {
+    const cards = await parseBulkStream(file.stream(), file.size, (read, total) => {
+      // A message per chunk would flood the page; a few hundred are enough for a progress bar
+      if (read - last < total / 200 && read < total) return;
+      last = read;
+      ctx.postMessage({ type: "progress", read, total });
+    });
+    ctx.postMessage({ type: "done", cards });
+  } catch (e: any) {
+    ctx.postMessage({ type: "error", message: e?.message ?? "Errore lettura del file bulk" });
+  }
+};
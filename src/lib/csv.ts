@@ -1,8 +1,9 @@
+import { SCHEMA_VERSION } from "./schema";
 import type { CubeEntry } from "./storage";
 
-function escCsv(v: unknown): string {
+export function escCsv(v: unknown): string {
   const s = String(v ?? "");
-  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  if (/[",\r\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
   return s;
 }
 
@@ -16,7 +17,14 @@ export function cubeToCsv(entries: CubeEntry[]): string {
     "color_identity",
     "cmc",
     "type_line",
-    "scryfall_uri"
+    "scryfall_uri",
+    "tags",
+    "notes",
+    "price_usd",
+    "price_usd_foil",
+    "price_eur",
+    "price_eur_foil",
+    "prices_at"
   ];
 
   const rows = entries
@@ -31,14 +39,21 @@ export function cubeToCsv(entries: CubeEntry[]): string {
       (e.color_identity ?? []).join(""),
       e.cmc ?? "",
       e.type_line,
-      e.scryfall_uri
+      e.scryfall_uri,
+      (e.tags ?? []).join(";"),
+      e.notes ?? "",
+      e.prices?.usd ?? "",
+      e.prices?.usd_foil ?? "",
+      e.prices?.eur ?? "",
+      e.prices?.eur_foil ?? "",
+      e.prices_at ? new Date(e.prices_at).toISOString() : ""
     ]);
 
   return [header, ...rows].map((r) => r.map(escCsv).join(",")).join("\n");
 }
 
 export function cubeToJson(entries: CubeEntry[]): string {
-  return JSON.stringify({ version: 1, exported_at: new Date().toISOString(), entries }, null, 2);
+  return JSON.stringify({ version: SCHEMA_VERSION, exported_at: new Date().toISOString(), entries }, null, 2);
 }
 
 export function downloadTextFile(filename: string, text: string, mime = "text/plain") {
@@ -0,0 +1,146 @@
+import { resolveDecklist, type DecklistLine, type UnresolvedLine } from "./decklist";
+import type { ImportIssue } from "./importPlan";
+import { getThumb } from "./scryfall";
+import { addEntryByName, cardToEntry, clampQty, type CubeEntry } from "./storage";
+import { mergeTags, parseTags } from "./tags";
+
+export type CsvLayout = "own" | "cubecobra";
+
+/** One CSV row, before resolution against Scryfall. */
+export type CsvRow = DecklistLine & {
+  tags?: string[];
+  notes?: string;
+};
+
+export type CsvImportResult = {
+  layout: CsvLayout;
+  entries: CubeEntry[];
+  unresolved: UnresolvedLine[];
+  rejected: ImportIssue[]; // rows dropped before the Scryfall lookup
+  adjusted: ImportIssue[];
+};
+
+/** RFC 4180 parser: quoted fields, doubled quotes, CRLF/LF, newlines inside quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function headerIndex(header: string[]): (name: string) => number {
+  const norm = header.map((h) => h.trim().toLowerCase());
+  return (name) => norm.indexOf(name.toLowerCase());
+}
+
+/** Recognize our own `cubeToCsv` header or CubeCobra's export layout. */
+export function detectCsvLayout(header: string[]): CsvLayout | null {
+  const idx = headerIndex(header);
+  if (idx("qty") >= 0 && idx("name") >= 0 && idx("collector_number") >= 0) return "own";
+  if (idx("name") >= 0 && idx("set") >= 0 && idx("collector number") >= 0) return "cubecobra";
+  return null;
+}
+
+/**
+ * Turn CSV text into rows to resolve. CubeCobra writes one row per copy, so
+ * identical printings are folded into a single row with summed qty; its
+ * maybeboard rows are reported as rejected.
+ */
+export function parseCubeCsv(text: string): { layout: CsvLayout; rows: CsvRow[]; rejected: ImportIssue[]; adjusted: ImportIssue[] } {
+  const table = parseCsv(text);
+  if (table.length < 2) throw new Error("CSV vuoto o senza righe dati.");
+  const layout = detectCsvLayout(table[0]);
+  if (!layout) throw new Error("Intestazione CSV non riconosciuta (attesi: export di questa app o CubeCobra).");
+
+  const idx = headerIndex(table[0]);
+  const col = (r: string[], name: string) => {
+    const i = idx(name);
+    return i >= 0 ? (r[i] ?? "").trim() : "";
+  };
+
+  const folded = new Map<string, CsvRow>();
+  const rejected: ImportIssue[] = [];
+  const adjusted: ImportIssue[] = [];
+  table.slice(1).forEach((r, i) => {
+    const line = i + 2;
+    const name = col(r, "name");
+    if (!name) {
+      if (r.some((c) => c.trim())) rejected.push({ row: line, reason: "nome mancante" });
+      return;
+    }
+    // CubeCobra exports the maybeboard too: those cards are not part of the cube
+    if (layout === "cubecobra" && col(r, "maybeboard").toLowerCase() === "true") {
+      rejected.push({ row: line, name, reason: "maybeboard di CubeCobra, non fa parte del cubo" });
+      return;
+    }
+    const set = (col(r, "set") || undefined)?.toLowerCase();
+    const collector_number = (layout === "own" ? col(r, "collector_number") : col(r, "collector number")) || undefined;
+    const rawQty = layout === "own" ? col(r, "qty") : "1";
+    const qty = clampQty(Number(rawQty));
+    if (String(qty) !== rawQty) adjusted.push({ row: line, name, reason: `qty "${rawQty}" → ${qty}` });
+    const tags = parseTags(col(r, "tags"));
+    const notes = (layout === "own" ? col(r, "notes") : col(r, "Notes")) || undefined;
+
+    const key = `${name}|${set ?? ""}|${collector_number ?? ""}`;
+    const existing = folded.get(key);
+    if (existing) {
+      adjusted.push({ row: line, name, reason: `unita alla riga ${existing.line} (stessa carta)` });
+      existing.qty = clampQty(existing.qty + qty);
+      existing.tags = mergeTags(existing.tags, tags);
+      return;
+    }
+    folded.set(key, { line, raw: r.join(","), qty, name, set, collector_number, tags, notes });
+  });
+
+  return { layout, rows: Array.from(folded.values()), rejected, adjusted };
+}
+
+/** Parse a CSV file and resolve every row against Scryfall (batched). */
+export async function importCubeCsv(text: string, onProgress?: (done: number, total: number) => void): Promise<CsvImportResult> {
+  const { layout, rows, rejected, adjusted } = parseCubeCsv(text);
+  const { resolved, unresolved } = await resolveDecklist(rows, onProgress);
+
+  let entries: CubeEntry[] = [];
+  for (const r of resolved) {
+    const row = r.line as CsvRow;
+    const entry = cardToEntry(r.card, getThumb(r.card));
+    entry.qty = row.qty;
+    if (row.tags?.length) entry.tags = row.tags;
+    if (row.notes) entry.notes = row.notes;
+    entries = addEntryByName(entries, entry);
+  }
+  return { layout, entries, unresolved, rejected, adjusted };
+}
@@ -0,0 +1,103 @@
+import { idbDelete, idbGet, idbPut, idbUpdate, openDb } from "./idb";
+
+/**
+ * Async key/value storage for cube entries and snapshots. IndexedDB when the
+ * browser has it, else localStorage behind the same interface (values are
+ * stored as JSON under the same keys).
+ */
+export type DataStore = {
+  kind: "indexeddb" | "localstorage";
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  /** Atomic read-modify-write of one key; resolves with the value written. */
+  update<T>(key: string, fn: (prev: T | undefined) => T): Promise<T>;
+  remove(key: string): Promise<void>;
+};
+
+const DB_NAME = "mtg_cube_data_v1";
+const STORE = "kv";
+// Share of the quota above which the app warns before writes start failing
+const QUOTA_WARNING = 0.9;
+
+function isQuotaError(e: any): boolean {
+  return e?.name === "QuotaExceededError" || e?.code === 22 || e?.name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+/** Turn a failed write into a message the user can act on. */
+export function writeError(e: any, what: string): Error {
+  if (isQuotaError(e)) {
+    return new Error(`Spazio del browser esaurito: ${what} non è stato salvato. Elimina i backup non fissati o esporta il cubo in JSON, poi riprova.`);
+  }
+  return new Error(`Errore di scrittura: ${what} non è stato salvato (${e?.message ?? "errore sconosciuto"}).`);
+}
+
+function localStore(): DataStore {
+  return {
+    kind: "localstorage",
+    async get<T>(key: string) {
+      const raw = localStorage.getItem(key);
+      return raw === null ? undefined : (JSON.parse(raw) as T);
+    },
+    async set(key, value) {
+      localStorage.setItem(key, JSON.stringify(value));
+    },
+    // Synchronous read and write: nothing can run in between
+    async update<T>(key: string, fn: (prev: T | undefined) => T) {
+      const raw = localStorage.getItem(key);
+      const next = fn(raw === null ? undefined : (JSON.parse(raw) as T));
+      localStorage.setItem(key, JSON.stringify(next));
+      return next;
+    },
+    async remove(key) {
+      localStorage.removeItem(key);
+    }
+  };
+}
+
+function idbStore(db: IDBDatabase): DataStore {
+  return {
+    kind: "indexeddb",
+    get: <T>(key: string) => idbGet<T>(db, STORE, key),
+    set: (key, value) => idbPut(db, STORE, key, value),
+    update: <T>(key: string, fn: (prev: T | undefined) => T) => idbUpdate<T>(db, STORE, key, fn),
+    remove: (key) => idbDelete(db, STORE, key)
+  };
+}
+
+let storePromise: Promise<DataStore> | null = null;
+
+/** The store for this session; the database stays open for the life of the tab. */
+export function dataStore(): Promise<DataStore> {
+  if (!storePromise) {
+    storePromise = openDb(DB_NAME, 1, [STORE])
+      .then((db) => {
+        // Ask the browser not to evict the data under storage pressure (best effort)
+        navigator.storage?.persist?.().catch(() => undefined);
+        return idbStore(db);
+      })
+      .catch(() => localStore());
+  }
+  return storePromise;
+}
+
+export type StorageUsage = {
+  usage: number; // bytes
+  quota: number;
+};
+
+/** Bytes used by the site and its quota, when the browser reports them. */
+export async function storageUsage(): Promise<StorageUsage | null> {
+  const est = await navigator.storage?.estimate?.().catch(() => undefined);
+  return est?.usage !== undefined && est.quota ? { usage: est.usage, quota: est.quota } : null;
+}
+
+export function fmtMegabytes(bytes: number): string {
+  return `${(bytes / 1_048_576).toFixed(1)} MB`;
+}
+
+/** Warning text when the site's storage is close to its quota, else null. */
+export async function quotaWarning(): Promise<string | null> {
+  const u = await storageUsage();
+  if (!u || u.usage / u.quota < QUOTA_WARNING) return null;
+  return `Spazio del browser quasi esaurito (${fmtMegabytes(u.usage)} su ${fmtMegabytes(u.quota)}): elimina i backup non fissati o esporta il cubo.`;
+}
@@ -0,0 +1,162 @@
+import {
+  COLLECTION_BATCH_SIZE,
+  fetchByFuzzyName,
+  fetchCollection,
+  getThumb,
+  type CardIdentifier,
+  type ScryfallCard
+} from "./scryfall";
+import { addEntryByName, cardToEntry, clampQty, type CubeEntry } from "./storage";
+
+export type DecklistLine = {
+  line: number; // 1-based line number in the pasted text
+  raw: string;
+  qty: number;
+  name: string;
+  set?: string;
+  collector_number?: string;
+};
+
+export type DecklistParseResult = {
+  lines: DecklistLine[];
+  skipped: Array<{ line: number; raw: string }>;
+};
+
+// Section headers written by MTGO/Arena/Moxfield exports
+const SECTION_HEADERS = new Set([
+  "deck",
+  "main",
+  "maindeck",
+  "mainboard",
+  "sideboard",
+  "commander",
+  "companion",
+  "maybeboard",
+  "about"
+]);
+
+// [qty[x]] name [(SET) [number]] [*F*]  — also accepts [SET] brackets
+const LINE_RE = /^(?:(\d+)\s*[xX]?\s+)?(.+?)(?:\s+[([]([A-Za-z0-9]{2,6})[)\]](?:\s+([A-Za-z0-9★-]+))?)?(?:\s+\*[A-Z]+\*)?$/;
+
+/**
+ * Parse a plain-text decklist: "1 Lightning Bolt", "4x Counterspell (MH2) 267",
+ * MTGO/Arena exports and bare names. Comments, blank lines and section headers
+ * are ignored.
+ */
+export function parseDecklist(text: string): DecklistParseResult {
+  const lines: DecklistLine[] = [];
+  const skipped: DecklistParseResult["skipped"] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const raw = rawLine.trim();
+    if (!raw || raw.startsWith("//") || raw.startsWith("#")) return;
+
+    const header = raw.replace(/:$/, "").toLowerCase();
+    if (SECTION_HEADERS.has(header) || /^name\s/i.test(raw)) return;
+
+    const body = raw.replace(/^SB:\s*/i, "");
+    const m = LINE_RE.exec(body);
+    const name = m?.[2]?.trim();
+    if (!m || !name) {
+      skipped.push({ line: i + 1, raw });
+      return;
+    }
+
+    lines.push({
+      line: i + 1,
+      raw,
+      qty: clampQty(m[1] ? Number(m[1]) : 1),
+      name,
+      set: m[3]?.toLowerCase(),
+      collector_number: m[4]
+    });
+  });
+
+  return { lines, skipped };
+}
+
+export type ResolvedLine = {
+  line: DecklistLine;
+  card: ScryfallCard;
+  fuzzy: boolean;
+};
+
+export type UnresolvedLine = {
+  line: DecklistLine;
+  reason: string;
+};
+
+export type DecklistResolution = {
+  resolved: ResolvedLine[];
+  unresolved: UnresolvedLine[];
+};
+
+function normName(s: string): string {
+  return s.trim().toLowerCase();
+}
+
+function identifierFor(l: DecklistLine): CardIdentifier {
+  if (l.set && l.collector_number) return { set: l.set, collector_number: l.collector_number };
+  if (l.set) return { name: l.name, set: l.set };
+  return { name: l.name };
+}
+
+function findCardFor(l: DecklistLine, cards: ScryfallCard[]): ScryfallCard | undefined {
+  if (l.set && l.collector_number) {
+    const hit = cards.find((c) => c.set === l.set && c.collector_number === l.collector_number);
+    if (hit) return hit;
+  }
+  const n = normName(l.name);
+  // Double-faced cards are returned as "Front // Back" but usually pasted by front name only
+  return cards.find((c) => {
+    const cn = normName(c.name);
+    return cn === n || cn.split(" // ")[0] === n;
+  });
+}
+
+/**
+ * Resolve parsed lines against Scryfall using /cards/collection in batches.
+ * Lines not found in the batch pass are retried one at a time with a fuzzy lookup.
+ */
+export async function resolveDecklist(
+  lines: DecklistLine[],
+  onProgress?: (done: number, total: number) => void
+): Promise<DecklistResolution> {
+  const resolved: ResolvedLine[] = [];
+  const misses: DecklistLine[] = [];
+
+  for (let i = 0; i < lines.length; i += COLLECTION_BATCH_SIZE) {
+    const batch = lines.slice(i, i + COLLECTION_BATCH_SIZE);
+    const { data } = await fetchCollection(batch.map(identifierFor));
+    for (const l of batch) {
+      const card = findCardFor(l, data);
+      if (card) resolved.push({ line: l, card, fuzzy: false });
+      else misses.push(l);
+    }
+    onProgress?.(Math.min(i + batch.length, lines.length), lines.length);
+  }
+
+  const unresolved: UnresolvedLine[] = [];
+  for (const l of misses) {
+    try {
+      const card = await fetchByFuzzyName(l.name);
+      resolved.push({ line: l, card, fuzzy: true });
+    } catch (e: any) {
+      unresolved.push({ line: l, reason: e?.message ?? "Carta non trovata" });
+    }
+  }
+
+  resolved.sort((a, b) => a.line.line - b.line.line);
+  return { resolved, unresolved };
+}
+
+/** Merge resolved lines into the cube with the same rules as a single add. */
+export function mergeResolved(prev: CubeEntry[], resolved: ResolvedLine[]): CubeEntry[] {
+  let next = prev;
+  for (const r of resolved) {
+    const entry = cardToEntry(r.card, getThumb(r.card));
+    entry.qty = r.line.qty;
+    next = addEntryByName(next, entry);
+  }
+  return next;
+}
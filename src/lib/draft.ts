@@ -0,0 +1,151 @@
+import { COLORS, colorBucket, isLand } from "./analytics";
+import { stablePool, type PoolCard } from "./pool";
+import { shuffle, type Rng } from "./random";
+import type { CubeEntry } from "./storage";
+
+export type PackBalance = "none" | "color" | "rarity";
+
+export type DraftConfig = {
+  seats: number; // players at the table, seat 0 is the human
+  packsPerSeat: number;
+  packSize: number;
+  balance: PackBalance;
+};
+
+export type DraftState = {
+  config: DraftConfig;
+  round: number; // 0-based
+  pick: number; // 0-based pick within the round
+  unopened: PoolCard[][][]; // [round][seat] packs not opened yet
+  packs: PoolCard[][]; // pack currently in front of each seat
+  picks: PoolCard[][]; // picked cards per seat
+  done: boolean;
+};
+
+export const DEFAULT_DRAFT_CONFIG: DraftConfig = { seats: 8, packsPerSeat: 3, packSize: 15, balance: "color" };
+
+const RARITY_ORDER: Record<string, number> = { common: 0, uncommon: 1, rare: 2, mythic: 3 };
+
+function balanceKey(c: PoolCard, balance: PackBalance): string {
+  if (balance === "color") return colorBucket(c.entry);
+  if (balance === "rarity") return String(RARITY_ORDER[c.entry.rarity] ?? 4);
+  return "";
+}
+
+/**
+ * Build `count` boosters of `size` cards from the cube, without replacement and
+ * respecting qty. With balancing, the drawn cards are sorted by color (or rarity)
+ * and dealt round-robin, so every pack gets a proportional share of each group.
+ */
+export function buildPacks(entries: CubeEntry[], count: number, size: number, balance: PackBalance, rng: Rng): PoolCard[][] {
+  const needed = count * size;
+  const pool = stablePool(entries);
+  if (pool.length < needed) {
+    throw new Error(`Il cubo ha ${pool.length} carte, ne servono ${needed} (${count} buste da ${size}).`);
+  }
+
+  let drawn = shuffle(pool, rng).slice(0, needed);
+  if (balance !== "none") {
+    drawn = drawn
+      .map((c, i) => ({ c, i, k: balanceKey(c, balance) }))
+      .sort((a, b) => a.k.localeCompare(b.k) || a.i - b.i)
+      .map((x) => x.c);
+  }
+
+  const packs: PoolCard[][] = Array.from({ length: count }, () => []);
+  drawn.forEach((c, i) => packs[i % count].push(c));
+  return packs.map((p) => shuffle(p, rng));
+}
+
+export function startDraft(entries: CubeEntry[], config: DraftConfig, rng: Rng): DraftState {
+  const { seats, packsPerSeat, packSize, balance } = config;
+  if (seats < 2) throw new Error("Servono almeno 2 giocatori.");
+  const all = buildPacks(entries, seats * packsPerSeat, packSize, balance, rng);
+
+  const unopened: PoolCard[][][] = [];
+  for (let r = 0; r < packsPerSeat; r++) unopened.push(all.slice(r * seats, (r + 1) * seats));
+
+  return {
+    config,
+    round: 0,
+    pick: 0,
+    unopened,
+    packs: unopened[0],
+    picks: Array.from({ length: seats }, () => []),
+    done: false
+  };
+}
+
+/**
+ * Bot heuristic: rarity as a proxy for power, a preference for the 2–4 cmc
+ * range, and a growing bonus for the colors the bot already committed to.
+ */
+export function rateForBot(card: PoolCard, picked: PoolCard[]): number {
+  const e = card.entry;
+  let score = (RARITY_ORDER[e.rarity] ?? 0) * 1.2;
+
+  if (isLand(e)) {
+    score += (e.color_identity?.length ?? 0) >= 2 ? 0.8 : -1;
+  } else {
+    const cmc = e.cmc ?? 0;
+    if (cmc >= 2 && cmc <= 4) score += 1;
+    else if (cmc >= 6) score -= 0.8;
+  }
+
+  const ci = e.color_identity ?? [];
+  if (picked.length >= 3 && ci.length > 0) {
+    const counts = new Map<string, number>();
+    for (const p of picked) for (const c of p.entry.color_identity ?? []) counts.set(c, (counts.get(c) ?? 0) + 1);
+    const top = COLORS.slice()
+      .sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+      .slice(0, 2);
+    const onColor = ci.filter((c) => top.includes(c as (typeof COLORS)[number])).length;
+    const commitment = Math.min(1, picked.length / 15);
+    score += (onColor / ci.length) * 3 * commitment;
+    score -= (ci.length - onColor) * 1.5 * commitment;
+  } else if (ci.length === 0) {
+    score += 0.3; // colorless cards fit any deck
+  }
+  return score;
+}
+
+export function botPick(pack: PoolCard[], picked: PoolCard[], rng: Rng): PoolCard {
+  let best = pack[0];
+  let bestScore = -Infinity;
+  for (const c of pack) {
+    const s = rateForBot(c, picked) + rng() * 0.5; // small noise so bots do not all agree
+    if (s > bestScore) {
+      best = c;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
+/** The human (seat 0) picks `uid`, bots pick for every other seat, then packs are passed. */
+export function humanPick(state: DraftState, uid: string, rng: Rng): DraftState {
+  if (state.done) return state;
+  const { seats, packsPerSeat } = state.config;
+  const mine = state.packs[0].find((c) => c.uid === uid);
+  if (!mine) return state;
+
+  const picks = state.picks.map((p) => p.slice());
+  const remaining: PoolCard[][] = state.packs.map((pack, seat) => {
+    const chosen = seat === 0 ? mine : botPick(pack, picks[seat], rng);
+    picks[seat].push(chosen);
+    return pack.filter((c) => c.uid !== chosen.uid);
+  });
+
+  if (remaining[0].length === 0) {
+    const round = state.round + 1;
+    if (round >= packsPerSeat) {
+      return { ...state, picks, packs: remaining, round: state.round, done: true };
+    }
+    return { ...state, picks, round, pick: 0, packs: state.unopened[round] };
+  }
+
+  // Pass left on even rounds, right on odd rounds
+  const dir = state.round % 2 === 0 ? 1 : -1;
+  const packs = remaining.map((_, seat) => remaining[(seat - dir + seats) % seats]);
+  return { ...state, picks, pick: state.pick + 1, packs };
+}
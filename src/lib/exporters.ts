@@ -0,0 +1,173 @@
+import { escCsv } from "./csv";
+import { entryFaces, isSplit } from "./faces";
+import type { CubeEntry } from "./storage";
+
+export type ExportFormat = "cubecobra" | "mtgo" | "arena" | "cockatrice" | "text";
+
+export type ExportResult = {
+  filename: string;
+  mime: string;
+  text: string;
+  warnings: string[];
+};
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: "cubecobra", label: "CubeCobra (CSV)" },
+  { id: "mtgo", label: "MTGO (.dek)" },
+  { id: "arena", label: "MTG Arena (testo)" },
+  { id: "cockatrice", label: "Cockatrice (.cod)" },
+  { id: "text", label: "Lista semplice (qty nome)" }
+];
+
+function byName(entries: CubeEntry[]): CubeEntry[] {
+  return entries.slice().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function escXml(v: unknown): string {
+  return String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function slug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "cube";
+}
+
+/**
+ * Name as deck clients expect it: split cards keep both halves joined by
+ * `splitSep`, other multi-face cards (DFC, MDFC, adventure) use the front face.
+ */
+function clientName(e: CubeEntry, splitSep = " // "): string {
+  const faces = entryFaces(e);
+  if (faces.length < 2) return e.name;
+  return isSplit(e.layout) ? faces.map((f) => f.name).join(splitSep) : faces[0].name;
+}
+
+function listNames(entries: CubeEntry[], max = 8): string {
+  const names = entries.map((e) => e.name);
+  return names.length > max ? `${names.slice(0, max).join(", ")} … (+${names.length - max})` : names.join(", ");
+}
+
+function multiFaceWarning(entries: CubeEntry[]): string[] {
+  const multi = entries.filter((e) => e.name.includes(" // ") && !isSplit(e.layout));
+  return multi.length > 0 ? [`${multi.length} carte a più facce esportate col nome della faccia frontale: ${listNames(multi)}`] : [];
+}
+
+/** CubeCobra CSV: one row per copy, with set and collector number. */
+function toCubeCobra(entries: CubeEntry[]): Omit<ExportResult, "filename"> {
+  const header = ["name", "CMC", "Type", "Color", "Set", "Collector Number", "Rarity", "Color Category", "status", "Finish", "maybeboard", "image URL", "image Back URL", "tags", "Notes", "MTGO ID"];
+  const rows: unknown[][] = [];
+  for (const e of byName(entries)) {
+    const row = [
+      e.name,
+      e.cmc ?? "",
+      e.type_line,
+      (e.color_identity ?? []).join(""),
+      e.set,
+      e.collector_number,
+      e.rarity,
+      "",
+      "Owned",
+      "Non-foil",
+      "false",
+      "",
+      "",
+      (e.tags ?? []).join(";"),
+      e.notes ?? "",
+      e.mtgo_id ?? ""
+    ];
+    for (let i = 0; i < e.qty; i++) rows.push(row);
+  }
+  return {
+    mime: "text/csv;charset=utf-8",
+    text: [header, ...rows].map((r) => r.map(escCsv).join(",")).join("\n"),
+    warnings: []
+  };
+}
+
+/** MTGO .dek XML. MTGO matches by CatID (Scryfall's mtgo_id); set codes are not supported. */
+function toMtgo(entries: CubeEntry[]): Omit<ExportResult, "filename"> {
+  const lines = byName(entries).map((e) => {
+    const cat = e.mtgo_id ? ` CatID="${e.mtgo_id}"` : "";
+    return `  <Cards${cat} Quantity="${e.qty}" Sideboard="false" Name="${escXml(clientName(e, "/"))}" Annotation="0" />`;
+  });
+  const noId = entries.filter((e) => !e.mtgo_id);
+  const warnings = [...multiFaceWarning(entries)];
+  if (noId.length > 0) {
+    warnings.push(`${noId.length} carte senza ID MTGO (stampa non disponibile su MTGO o dato mancante): verranno cercate per nome. ${listNames(noId)}`);
+  }
+  return {
+    mime: "application/xml;charset=utf-8",
+    text: [
+      `<?xml version="1.0" encoding="utf-8"?>`,
+      `<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+      `  <NetDeckID>0</NetDeckID>`,
+      `  <PreconstructedDeckID>0</PreconstructedDeckID>`,
+      ...lines,
+      `</Deck>`
+    ].join("\n"),
+    warnings
+  };
+}
+
+/** MTG Arena: "qty Name (SET) number", set only for printings that exist on Arena. */
+function toArena(entries: CubeEntry[]): Omit<ExportResult, "filename"> {
+  const lines = byName(entries).map((e) =>
+    e.arena_id ? `${e.qty} ${clientName(e)} (${e.set.toUpperCase()}) ${e.collector_number}` : `${e.qty} ${clientName(e)}`
+  );
+  const notOnArena = entries.filter((e) => !e.arena_id);
+  const warnings = [...multiFaceWarning(entries)];
+  if (notOnArena.length > 0) {
+    warnings.push(`${notOnArena.length} carte senza stampa Arena: esportate solo per nome, Arena potrebbe rifiutarle. ${listNames(notOnArena)}`);
+  }
+  return { mime: "text/plain;charset=utf-8", text: ["Deck", ...lines].join("\n"), warnings };
+}
+
+/** Cockatrice .cod XML with set short name and collector number. */
+function toCockatrice(entries: CubeEntry[], cubeName: string): Omit<ExportResult, "filename"> {
+  const cards = byName(entries).map(
+    (e) =>
+      `    <card number="${e.qty}" name="${escXml(clientName(e))}" setShortName="${escXml(e.set.toUpperCase())}" collectorNumber="${escXml(e.collector_number)}"/>`
+  );
+  return {
+    mime: "application/xml;charset=utf-8",
+    text: [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<cockatrice_deck version="1">`,
+      `  <deckname>${escXml(cubeName)}</deckname>`,
+      `  <comments></comments>`,
+      `  <zone name="main">`,
+      ...cards,
+      `  </zone>`,
+      `</cockatrice_deck>`
+    ].join("\n"),
+    warnings: multiFaceWarning(entries)
+  };
+}
+
+function toText(entries: CubeEntry[]): Omit<ExportResult, "filename"> {
+  return {
+    mime: "text/plain;charset=utf-8",
+    text: byName(entries).map((e) => `${e.qty} ${e.name}`).join("\n"),
+    warnings: []
+  };
+}
+
+export function exportCube(format: ExportFormat, entries: CubeEntry[], cubeName: string): ExportResult {
+  const base = slug(cubeName);
+  switch (format) {
+    case "cubecobra":
+      return { filename: `${base}-cubecobra.csv`, ...toCubeCobra(entries) };
+    case "mtgo":
+      return { filename: `${base}.dek`, ...toMtgo(entries) };
+    case "arena":
+      return { filename: `${base}-arena.txt`, ...toArena(entries) };
+    case "cockatrice":
+      return { filename: `${base}.cod`, ...toCockatrice(entries, cubeName) };
+    case "text":
+      return { filename: `${base}.txt`, ...toText(entries) };
+  }
+}
@@ -0,0 +1,61 @@
+import type { ScryfallCard } from "./scryfall";
+import type { CubeEntry } from "./storage";
+
+/** One face of a multi-face card as stored on a cube entry. */
+export type CardFace = {
+  name: string;
+  type_line: string;
+  mana_cost?: string;
+  thumb?: string; // only for cards printed on two physical sides
+};
+
+// Layouts printed on two physical sides, each face with its own image
+const DOUBLE_SIDED = new Set(["transform", "modal_dfc", "double_faced_token", "reversible_card"]);
+
+// Layouts whose halves are cast separately and named "A // B" by Arena and Cockatrice (aftermath is "split" too)
+const SPLIT = new Set(["split"]);
+
+export function isDoubleSided(layout?: string): boolean {
+  return layout !== undefined && DOUBLE_SIDED.has(layout);
+}
+
+export function isSplit(layout?: string): boolean {
+  return layout !== undefined && SPLIT.has(layout);
+}
+
+/** Faces of a Scryfall card for storage; undefined for single-faced cards. */
+export function cardFaces(card: ScryfallCard): CardFace[] | undefined {
+  const faces = card.card_faces;
+  if (!faces || faces.length < 2) return undefined;
+  return faces.map((f) => ({
+    name: f.name,
+    type_line: f.type_line ?? "",
+    mana_cost: f.mana_cost || undefined,
+    thumb: f.image_uris?.small
+  }));
+}
+
+/**
+ * Faces of an entry. Entries saved before faces were stored fall back to
+ * splitting "Front // Back" name and type line.
+ */
+export function entryFaces(e: Pick<CubeEntry, "name" | "type_line" | "mana_cost" | "thumb" | "faces">): CardFace[] {
+  if (e.faces && e.faces.length > 1) return e.faces;
+  const names = e.name.split(" // ");
+  const types = e.type_line.split(" // ");
+  if (names.length < 2 || types.length !== names.length) {
+    return [{ name: e.name, type_line: e.type_line, mana_cost: e.mana_cost, thumb: e.thumb }];
+  }
+  const costs = (e.mana_cost ?? "").split(" // ");
+  return names.map((name, i) => ({ name, type_line: types[i], mana_cost: costs[i] || undefined, thumb: i === 0 ? e.thumb : undefined }));
+}
+
+/** Type line of every face, front first. */
+export function faceTypeLines(e: Pick<CubeEntry, "name" | "type_line" | "faces">): string[] {
+  return entryFaces({ ...e, mana_cost: undefined, thumb: undefined }).map((f) => f.type_line);
+}
+
+/** Image of the given face: the per-face image for double-sided cards, else the card image. */
+export function faceThumb(e: Pick<CubeEntry, "thumb" | "faces">, face: number): string | undefined {
+  return e.faces?.[face]?.thumb ?? e.thumb;
+}
@@ -0,0 +1,66 @@
+import type { CubeEntry } from "./storage";
+
+export type HistoryItem = {
+  label: string;
+  at: number; // epoch ms
+  entries: CubeEntry[];
+  coalesceKey?: string;
+};
+
+/** Linear undo/redo history: `items[index]` is the current cube. */
+export type CubeHistory = {
+  items: HistoryItem[];
+  index: number;
+};
+
+const MAX_ITEMS = 100;
+const COALESCE_MS = 1500;
+
+export function initHistory(entries: CubeEntry[], label = "Stato iniziale"): CubeHistory {
+  return { items: [{ label, at: Date.now(), entries }], index: 0 };
+}
+
+export function currentEntries(h: CubeHistory): CubeEntry[] {
+  return h.items[h.index].entries;
+}
+
+/**
+ * Record a new cube state, dropping any redo branch. Consecutive pushes with the
+ * same `coalesceKey` (e.g. typing in a qty field) are merged into one step.
+ */
+export function pushHistory(h: CubeHistory, label: string, entries: CubeEntry[], coalesceKey?: string): CubeHistory {
+  if (entries === currentEntries(h)) return h;
+  const now = Date.now();
+  const last = h.items[h.index];
+  const kept = h.items.slice(0, h.index + 1);
+
+  const atTip = h.index === h.items.length - 1;
+  if (coalesceKey && atTip && h.index > 0 && last.coalesceKey === coalesceKey && now - last.at < COALESCE_MS) {
+    kept[kept.length - 1] = { ...last, label, at: now, entries };
+    return { items: kept, index: kept.length - 1 };
+  }
+
+  const items = [...kept, { label, at: now, entries, coalesceKey }].slice(-MAX_ITEMS);
+  return { items, index: items.length - 1 };
+}
+
+export function canUndo(h: CubeHistory): boolean {
+  return h.index > 0;
+}
+
+export function canRedo(h: CubeHistory): boolean {
+  return h.index < h.items.length - 1;
+}
+
+export function jumpTo(h: CubeHistory, index: number): CubeHistory {
+  if (index < 0 || index >= h.items.length) return h;
+  return { ...h, index };
+}
+
+export function undo(h: CubeHistory): CubeHistory {
+  return jumpTo(h, h.index - 1);
+}
+
+export function redo(h: CubeHistory): CubeHistory {
+  return jumpTo(h, h.index + 1);
+}
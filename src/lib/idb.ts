@@ -0,0 +1,63 @@
+/** Minimal promise wrappers around IndexedDB (one object store per call, out-of-line keys). */
+
+export function openDb(name: string, version: number, stores: string[]): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB non disponibile in questo browser."));
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = () => {
+      for (const s of stores) {
+        if (!req.result.objectStoreNames.contains(s)) req.result.createObjectStore(s);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error(`Impossibile aprire il database ${name}`));
+  });
+}
+
+function run<T>(db: IDBDatabase, store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result as T);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transazione IndexedDB annullata"));
+  });
+}
+
+export function idbGet<T>(db: IDBDatabase, store: string, key: IDBValidKey): Promise<T | undefined> {
+  return run<T | undefined>(db, store, "readonly", (s) => s.get(key));
+}
+
+export function idbPut(db: IDBDatabase, store: string, key: IDBValidKey, value: unknown): Promise<void> {
+  return run<IDBValidKey>(db, store, "readwrite", (s) => s.put(value, key)).then(() => undefined);
+}
+
+export function idbDelete(db: IDBDatabase, store: string, key: IDBValidKey): Promise<void> {
+  return run<undefined>(db, store, "readwrite", (s) => s.delete(key));
+}
+
+/**
+ * Read-modify-write of one key in a single readwrite transaction, so concurrent
+ * updates (this tab or another) are applied one after the other, never lost.
+ */
+export function idbUpdate<T>(db: IDBDatabase, store: string, key: IDBValidKey, update: (prev: T | undefined) => T): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    const s = tx.objectStore(store);
+    let next: T;
+    const req = s.get(key);
+    req.onsuccess = () => {
+      try {
+        next = update(req.result as T | undefined);
+      } catch (e) {
+        tx.abort();
+        reject(e);
+        return;
+      }
+      s.put(next, key);
+    };
+    tx.oncomplete = () => resolve(next);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transazione IndexedDB annullata"));
+  });
+}
@@ -0,0 +1,70 @@
+import { clampQty, mergeEntries, type CubeEntry } from "./storage";
+import { entryKey } from "./sync";
+import { mergeTags } from "./tags";
+
+/** A row of an imported file that was dropped or changed, with the reason. */
+export type ImportIssue = {
+  row: number; // 1-based entry index (JSON) or line number (CSV)
+  name?: string;
+  reason: string;
+};
+
+/** How to merge an imported card whose name is already in the cube with another printing. */
+export type ConflictResolution = "merge" | "replace" | "both" | "skip";
+
+export const CONFLICT_RESOLUTIONS: Array<{ id: ConflictResolution; label: string }> = [
+  { id: "merge", label: "Tieni la stampa attuale, somma qty" },
+  { id: "replace", label: "Usa la stampa importata, somma qty" },
+  { id: "both", label: "Tieni entrambe (righe separate)" },
+  { id: "skip", label: "Ignora la riga importata" }
+];
+
+export type ImportMatch = {
+  existing: CubeEntry;
+  incoming: CubeEntry;
+};
+
+/** What merging an import into the cube would do, before anything is applied. */
+export type ImportPlan = {
+  added: CubeEntry[];
+  increased: ImportMatch[]; // same printing: qty is summed
+  conflicts: ImportMatch[]; // same name, different printing/id
+};
+
+export function planImport(current: CubeEntry[], incoming: CubeEntry[]): ImportPlan {
+  const byKey = new Map(current.map((e) => [entryKey(e), e]));
+  const byName = new Map(current.map((e) => [e.name.toLowerCase(), e]));
+  const plan: ImportPlan = { added: [], increased: [], conflicts: [] };
+  // Rows repeated inside the file are folded first, like mergeEntries does
+  for (const inc of mergeEntries([], incoming)) {
+    const same = byKey.get(entryKey(inc));
+    const named = byName.get(inc.name.toLowerCase());
+    if (same) plan.increased.push({ existing: same, incoming: inc });
+    else if (named) plan.conflicts.push({ existing: named, incoming: inc });
+    else plan.added.push(inc);
+  }
+  return plan;
+}
+
+/** Apply a merge plan; conflicts without a choice in `resolutions` are merged into the current printing. */
+export function applyImportPlan(current: CubeEntry[], plan: ImportPlan, resolutions: Record<string, ConflictResolution>): CubeEntry[] {
+  let out = mergeEntries(current, [...plan.increased.map((m) => m.incoming), ...plan.added]);
+  for (const { existing, incoming } of plan.conflicts) {
+    const res = resolutions[entryKey(incoming)] ?? "merge";
+    if (res === "skip") continue;
+    const at = out.findIndex((e) => entryKey(e) === entryKey(existing));
+    if (res === "both" || at < 0) {
+      out = [...out, incoming];
+      continue;
+    }
+    const prev = out[at];
+    const qty = clampQty(prev.qty + incoming.qty);
+    const tags = mergeTags(prev.tags, incoming.tags);
+    const next =
+      res === "replace"
+        ? { ...incoming, qty, tags: tags.length ? tags : undefined, notes: prev.notes ?? incoming.notes }
+        : { ...prev, qty, tags: tags.length ? tags : undefined };
+    out = out.map((e, i) => (i === at ? next : e));
+  }
+  return out;
+}
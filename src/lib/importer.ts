@@ -1,4 +1,7 @@
+import type { ImportIssue } from "./importPlan";
+import { migrateEntries } from "./schema";
 import type { CubeEntry } from "./storage";
+import { normalizeTag } from "./tags";
 
 type CubeJsonV1 = {
   version?: number;
@@ -6,36 +9,94 @@ type CubeJsonV1 = {
   entries?: unknown;
 };
 
-function isCubeEntry(x: any): x is CubeEntry {
-  return x
-    && typeof x === "object"
-    && typeof x.id === "string"
-    && typeof x.name === "string"
-    && typeof x.qty === "number"
-    && typeof x.set === "string"
-    && typeof x.collector_number === "string"
-    && typeof x.rarity === "string"
-    && typeof x.type_line === "string"
-    && typeof x.scryfall_uri === "string";
+/** Entries accepted from a JSON file, plus the rows dropped or corrected on the way. */
+export type CubeJsonReport = {
+  entries: CubeEntry[];
+  rejected: ImportIssue[];
+  adjusted: ImportIssue[];
+};
+
+const REQUIRED_FIELDS: Array<[keyof CubeEntry, "string" | "number"]> = [
+  ["id", "string"],
+  ["name", "string"],
+  ["qty", "number"],
+  ["set", "string"],
+  ["collector_number", "string"],
+  ["rarity", "string"],
+  ["type_line", "string"],
+  ["scryfall_uri", "string"]
+];
+
+/** Why a row is not a usable CubeEntry; empty when it is. */
+function entryProblems(x: any): string[] {
+  if (!x || typeof x !== "object" || Array.isArray(x)) return ["non è un oggetto"];
+  const out: string[] = [];
+  for (const [field, type] of REQUIRED_FIELDS) {
+    if (typeof x[field] === type) continue;
+    out.push(x[field] === undefined || x[field] === null ? `manca "${field}"` : `"${field}" non è ${type === "string" ? "un testo" : "un numero"}`);
+  }
+  return out;
 }
 
-export function parseCubeJson(text: string): CubeEntry[] {
-  const raw = JSON.parse(text) as CubeJsonV1 | unknown;
+export function parseCubeJsonReport(text: string): CubeJsonReport {
+  let raw: CubeJsonV1 | unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Il file non è un JSON valido.");
+  }
+  return cubeJsonReport(raw);
+}
 
-  // Accept either { entries: [...] } (preferred) or a raw array of entries
-  const entries =
+/** Same as parseCubeJsonReport, for a file already parsed. */
+export function cubeJsonReport(raw: unknown): CubeJsonReport {
+
+  // Accept either { version, entries: [...] } (preferred) or a raw array of entries (version 1)
+  const found =
     Array.isArray((raw as any)?.entries) ? (raw as any).entries :
     Array.isArray(raw) ? raw :
     null;
 
-  if (!entries) throw new Error("File JSON non riconosciuto (manca 'entries').");
+  if (!found) throw new Error("File JSON non riconosciuto (manca 'entries').");
+  const entries = migrateEntries(found, Array.isArray(raw) ? 1 : (raw as CubeJsonV1).version, "Il file JSON");
 
-  const parsed: CubeEntry[] = [];
-  for (const e of entries) {
-    if (!isCubeEntry(e)) continue;
-    const qty = Math.max(1, Math.min(99, Number((e as any).qty) || 1));
-    parsed.push({ ...(e as any), qty });
-  }
-  if (parsed.length === 0) throw new Error("Nessuna entry valida trovata nel JSON.");
-  return parsed;
+  const report: CubeJsonReport = { entries: [], rejected: [], adjusted: [] };
+  entries.forEach((e: any, i) => {
+    const row = i + 1;
+    const name = typeof e?.name === "string" ? e.name : undefined;
+    const problems = entryProblems(e);
+    if (problems.length > 0) {
+      report.rejected.push({ row, name, reason: problems.join(", ") });
+      return;
+    }
+
+    const fixes: string[] = [];
+    const qty = Math.max(1, Math.min(99, Math.floor(Number(e.qty)) || 1));
+    if (qty !== e.qty) fixes.push(`qty ${e.qty} → ${qty}`);
+    let tags: string[] | undefined;
+    if (Array.isArray(e.tags)) {
+      tags = Array.from(new Set((e.tags as unknown[]).filter((t): t is string => typeof t === "string").map(normalizeTag).filter(Boolean)));
+      if (tags.length !== e.tags.length) fixes.push("tag non validi o ripetuti rimossi");
+    } else if (e.tags !== undefined) {
+      fixes.push("tag non in formato lista, ignorati");
+    }
+    const notes = typeof e.notes === "string" && e.notes.trim() ? e.notes : undefined;
+    if (fixes.length > 0) report.adjusted.push({ row, name, reason: fixes.join(", ") });
+    report.entries.push({ ...e, qty, tags: tags?.length ? tags : undefined, notes });
+  });
+  return report;
+}
+
+function validEntries({ entries }: CubeJsonReport): CubeEntry[] {
+  if (entries.length === 0) throw new Error("Nessuna entry valida trovata nel JSON.");
+  return entries;
+}
+
+export function parseCubeJson(text: string): CubeEntry[] {
+  return validEntries(parseCubeJsonReport(text));
+}
+
+/** Entries of a cube JSON already parsed (e.g. a snapshot file read by the caller). */
+export function parseCubeJsonValue(raw: unknown): CubeEntry[] {
+  return validEntries(cubeJsonReport(raw));
 }
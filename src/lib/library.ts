@@ -0,0 +1,189 @@
+import { deleteBackups, migrateLegacyBackupSlots, moveLegacyBackups } from "./backup";
+import type { CubeRules } from "./rules";
+import { deleteCubeData, loadCube, loadMeta, migrateCubeData, moveLegacyCube, saveCube, storedCubeIds, type CubeEntry } from "./storage";
+
+const LIBRARY_KEY = "mtg_cube_library_v1";
+// A library record that could not be read is kept here instead of being lost
+const CORRUPT_KEY = "mtg_cube_library_corrupt_v1";
+
+export type CubeInfo = {
+  id: string;
+  name: string;
+  description: string;
+  created_at: number; // epoch ms
+  budget?: number; // price cap in the preferred currency; none when unset
+  rules?: CubeRules; // design constraints checked by the lint panel
+};
+
+export type CubeLibrary = {
+  version: 1;
+  active_id: string;
+  cubes: CubeInfo[];
+};
+
+function newCubeId(): string {
+  return `cube_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function makeInfo(name: string, description = ""): CubeInfo {
+  return { id: newCubeId(), name: name.trim() || "Senza nome", description: description.trim(), created_at: Date.now() };
+}
+
+function isLibrary(x: any): x is CubeLibrary {
+  return x && typeof x === "object" && typeof x.active_id === "string" && Array.isArray(x.cubes) && x.cubes.length > 0;
+}
+
+function isCubeInfo(x: any): x is CubeInfo {
+  return x && typeof x === "object" && typeof x.id === "string" && typeof x.name === "string";
+}
+
+/**
+ * Rebuild the library from the cubes found in storage when its record is
+ * missing or unreadable. Cubes still listed in the damaged record keep their
+ * name; the others get a placeholder. Null when there is nothing to recover.
+ */
+function recoverLibrary(damaged: any): CubeLibrary | null {
+  const ids = storedCubeIds();
+  if (ids.length === 0) return null;
+  const known = new Map<string, CubeInfo>();
+  if (damaged && Array.isArray(damaged.cubes)) {
+    for (const c of damaged.cubes) if (isCubeInfo(c)) known.set(c.id, c);
+  }
+  let unnamed = 0;
+  const cubes = ids.map((id): CubeInfo => {
+    const info = known.get(id);
+    return {
+      id,
+      name: info?.name || `Cubo recuperato ${++unnamed}`,
+      description: typeof info?.description === "string" ? info.description : "",
+      created_at: typeof info?.created_at === "number" ? info.created_at : (loadMeta(id)?.updated_at ?? Date.now()),
+      budget: info?.budget,
+      rules: info?.rules
+    };
+  });
+  const active = typeof damaged?.active_id === "string" && ids.includes(damaged.active_id) ? damaged.active_id : ids[0];
+  return { version: 1, active_id: active, cubes };
+}
+
+export function saveLibrary(lib: CubeLibrary) {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(lib));
+}
+
+/**
+ * Load the cube library. On first run the legacy single cube (`mtg_cube_v1`)
+ * and its backup ring are migrated into the library as the first cube. A
+ * missing or corrupt record is rebuilt from the cubes still in storage.
+ */
+export function loadLibrary(): CubeLibrary {
+  const raw = localStorage.getItem(LIBRARY_KEY);
+  let parsed: any = null;
+  try {
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    // unreadable: rebuilt below
+  }
+  if (isLibrary(parsed)) {
+    if (!parsed.cubes.some((c) => c.id === parsed.active_id)) parsed.active_id = parsed.cubes[0].id;
+    return parsed;
+  }
+
+  const recovered = recoverLibrary(parsed);
+  if (recovered) {
+    if (raw) localStorage.setItem(CORRUPT_KEY, raw);
+    saveLibrary(recovered);
+    return recovered;
+  }
+
+  const first = makeInfo("Il mio cubo");
+  moveLegacyCube(first.id);
+  moveLegacyBackups(first.id);
+
+  const lib: CubeLibrary = { version: 1, active_id: first.id, cubes: [first] };
+  saveLibrary(lib);
+  return lib;
+}
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move every cube's entries and backup slots out of localStorage into the data
+ * store (IndexedDB). Runs on every start; cubes already moved are skipped.
+ */
+export function migrateLibraryData(lib: CubeLibrary): Promise<void> {
+  // One run per page load, even if the caller mounts twice
+  if (!migration) {
+    migration = (async () => {
+      for (const c of lib.cubes) {
+        await migrateCubeData(c.id);
+        await migrateLegacyBackupSlots(c.id);
+      }
+    })();
+    migration.catch(() => {
+      migration = null; // let a later call retry
+    });
+  }
+  return migration;
+}
+
+export async function createCube(lib: CubeLibrary, name: string, description = "", entries: CubeEntry[] = []): Promise<CubeLibrary> {
+  const info = makeInfo(name, description);
+  await saveCube(info.id, entries);
+  const next: CubeLibrary = { ...lib, active_id: info.id, cubes: [...lib.cubes, info] };
+  saveLibrary(next);
+  return next;
+}
+
+export function updateCubeInfo(lib: CubeLibrary, id: string, patch: Partial<Pick<CubeInfo, "name" | "description" | "budget" | "rules">>): CubeLibrary {
+  const next: CubeLibrary = {
+    ...lib,
+    cubes: lib.cubes.map((c) =>
+      c.id === id
+        ? {
+            ...c,
+            name: patch.name !== undefined ? patch.name.trim() || c.name : c.name,
+            description: patch.description !== undefined ? patch.description.trim() : c.description,
+            budget: "budget" in patch ? patch.budget : c.budget,
+            rules: "rules" in patch ? patch.rules : c.rules
+          }
+        : c
+    )
+  };
+  saveLibrary(next);
+  return next;
+}
+
+export async function cloneCube(lib: CubeLibrary, id: string, name: string): Promise<CubeLibrary> {
+  const src = lib.cubes.find((c) => c.id === id);
+  if (!src) throw new Error("Cubo non trovato");
+  return createCube(lib, name, src.description, await loadCube(id));
+}
+
+export async function deleteCube(lib: CubeLibrary, id: string): Promise<CubeLibrary> {
+  if (lib.cubes.length <= 1) throw new Error("Non puoi eliminare l'unico cubo della libreria.");
+  await deleteCubeData(id);
+  await deleteBackups(id);
+  const cubes = lib.cubes.filter((c) => c.id !== id);
+  const next: CubeLibrary = { ...lib, cubes, active_id: lib.active_id === id ? cubes[0].id : lib.active_id };
+  saveLibrary(next);
+  return next;
+}
+
+export function setActiveCube(lib: CubeLibrary, id: string): CubeLibrary {
+  if (!lib.cubes.some((c) => c.id === id)) throw new Error("Cubo non trovato");
+  const next: CubeLibrary = { ...lib, active_id: id };
+  saveLibrary(next);
+  return next;
+}
+
+/** Call `onChange` when another tab saves the library (cube list, names, budgets, rules). */
+export function watchLibrary(onChange: () => void): () => void {
+  const handler = (e: StorageEvent) => {
+    if (e.storageArea === localStorage && (e.key === LIBRARY_KEY || e.key === null)) onChange();
+  };
+  window.addEventListener("storage", handler);
+  return () => window.removeEventListener("storage", handler);
+}
+
+export function activeCubeInfo(lib: CubeLibrary): CubeInfo {
+  return lib.cubes.find((c) => c.id === lib.active_id) ?? lib.cubes[0];
+}
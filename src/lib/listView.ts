@@ -0,0 +1,156 @@
+import { BUCKET_LABELS, COLOR_BUCKETS, CARD_TYPES, CURVE_MAX, RARITIES, colorBucket, hasCardType, primaryType, type CardType, type ColorBucket } from "./analytics";
+import type { CubeEntry } from "./storage";
+
+const KEY = "mtg_cube_listview_v1";
+
+export type SortKey = "name" | "cmc" | "color" | "set" | "qty";
+export type GroupKey = "none" | "color" | "type" | "rarity" | "cmc";
+
+export type ListFilters = {
+  text: string; // matches name and type line (both include every face)
+  colors: ColorBucket[]; // empty = all
+  cmcMin: number | null;
+  cmcMax: number | null;
+  rarities: string[];
+  types: string[]; // any face
+  tags: string[]; // any of
+};
+
+export type ListViewSettings = {
+  filters: ListFilters;
+  sort: SortKey;
+  dir: "asc" | "desc";
+  group: GroupKey;
+  subgroup: GroupKey;
+  collapsed: string[]; // group paths, e.g. "color:W" or "color:W/type:Creature"
+};
+
+export type EntryGroup = {
+  path: string;
+  label: string;
+  count: number; // sum of qty
+  entries: CubeEntry[];
+  children?: EntryGroup[];
+};
+
+export const DEFAULT_LIST_VIEW: ListViewSettings = {
+  filters: { text: "", colors: [], cmcMin: null, cmcMax: null, rarities: [], types: [], tags: [] },
+  sort: "name",
+  dir: "asc",
+  group: "none",
+  subgroup: "none",
+  collapsed: []
+};
+
+export function loadListView(): ListViewSettings {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return DEFAULT_LIST_VIEW;
+    const parsed = JSON.parse(raw) as Partial<ListViewSettings>;
+    return {
+      ...DEFAULT_LIST_VIEW,
+      ...parsed,
+      filters: { ...DEFAULT_LIST_VIEW.filters, ...(parsed.filters ?? {}) }
+    };
+  } catch {
+    return DEFAULT_LIST_VIEW;
+  }
+}
+
+export function saveListView(v: ListViewSettings) {
+  localStorage.setItem(KEY, JSON.stringify(v));
+}
+
+// Saved filters are plain strings
+function isCardType(t: string): t is CardType {
+  return (CARD_TYPES as readonly string[]).includes(t);
+}
+
+export function applyFilters(entries: CubeEntry[], f: ListFilters): CubeEntry[] {
+  const text = f.text.trim().toLowerCase();
+  return entries.filter((e) => {
+    if (text && !e.name.toLowerCase().includes(text) && !e.type_line.toLowerCase().includes(text)) return false;
+    if (f.colors.length > 0 && !f.colors.includes(colorBucket(e))) return false;
+    const cmc = e.cmc ?? 0;
+    if (f.cmcMin !== null && cmc < f.cmcMin) return false;
+    if (f.cmcMax !== null && cmc > f.cmcMax) return false;
+    if (f.rarities.length > 0 && !f.rarities.includes(e.rarity)) return false;
+    if (f.types.length > 0 && !f.types.some((t) => isCardType(t) && hasCardType(e, t))) return false;
+    if (f.tags.length > 0 && !(e.tags ?? []).some((t) => f.tags.includes(t))) return false;
+    return true;
+  });
+}
+
+const COLOR_ORDER = Object.fromEntries(COLOR_BUCKETS.map((b, i) => [b, i])) as Record<ColorBucket, number>;
+
+function compareBy(key: SortKey, a: CubeEntry, b: CubeEntry): number {
+  switch (key) {
+    case "cmc":
+      return (a.cmc ?? 0) - (b.cmc ?? 0);
+    case "color":
+      return COLOR_ORDER[colorBucket(a)] - COLOR_ORDER[colorBucket(b)] || (a.color_identity ?? []).join("").localeCompare((b.color_identity ?? []).join(""));
+    case "set":
+      return a.set.localeCompare(b.set) || a.collector_number.localeCompare(b.collector_number, undefined, { numeric: true });
+    case "qty":
+      return a.qty - b.qty;
+    default:
+      return 0;
+  }
+}
+
+/** Sort by the chosen key, always falling back to name. */
+export function sortEntries(entries: CubeEntry[], key: SortKey, dir: "asc" | "desc"): CubeEntry[] {
+  const sign = dir === "asc" ? 1 : -1;
+  return entries.slice().sort((a, b) => sign * (compareBy(key, a, b) || a.name.localeCompare(b.name)));
+}
+
+function groupOf(key: GroupKey, e: CubeEntry): { id: string; label: string; order: number } {
+  switch (key) {
+    case "color": {
+      const b = colorBucket(e);
+      return { id: b, label: BUCKET_LABELS[b], order: COLOR_ORDER[b] };
+    }
+    case "type": {
+      const t = primaryType(e);
+      return { id: t, label: t, order: CARD_TYPES.indexOf(t) };
+    }
+    case "rarity": {
+      const i = (RARITIES as readonly string[]).indexOf(e.rarity);
+      return { id: e.rarity, label: e.rarity, order: i < 0 ? RARITIES.length : i };
+    }
+    case "cmc": {
+      const c = Math.min(CURVE_MAX, Math.floor(e.cmc ?? 0));
+      return { id: String(c), label: c === CURVE_MAX ? `CMC ${CURVE_MAX}+` : `CMC ${c}`, order: c };
+    }
+    default:
+      return { id: "all", label: "Tutte", order: 0 };
+  }
+}
+
+function groupLevel(entries: CubeEntry[], key: GroupKey, parent: string): EntryGroup[] {
+  const map = new Map<string, { label: string; order: number; entries: CubeEntry[] }>();
+  for (const e of entries) {
+    const g = groupOf(key, e);
+    const slot = map.get(g.id) ?? { label: g.label, order: g.order, entries: [] };
+    slot.entries.push(e);
+    map.set(g.id, slot);
+  }
+  return Array.from(map.entries())
+    .sort((a, b) => a[1].order - b[1].order || a[0].localeCompare(b[0]))
+    .map(([id, g]) => ({
+      path: `${parent}${parent ? "/" : ""}${key}:${id}`,
+      label: g.label,
+      count: g.entries.reduce((acc, e) => acc + e.qty, 0),
+      entries: g.entries
+    }));
+}
+
+/** Group already sorted entries into (optionally nested) sections. */
+export function groupEntries(entries: CubeEntry[], group: GroupKey, subgroup: GroupKey): EntryGroup[] {
+  if (group === "none") {
+    return [{ path: "", label: "", count: entries.reduce((acc, e) => acc + e.qty, 0), entries }];
+  }
+  const top = groupLevel(entries, group, "");
+  if (subgroup === "none" || subgroup === group) return top;
+  return top.map((g) => ({ ...g, children: groupLevel(g.entries, subgroup, g.path) }));
+}
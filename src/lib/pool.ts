@@ -0,0 +1,37 @@
+import type { CubeEntry } from "./storage";
+
+/** A single physical card: one copy of a cube entry. */
+export type PoolCard = {
+  uid: string;
+  entry: CubeEntry;
+};
+
+/** One PoolCard per copy, so an entry with qty 2 can be opened twice. */
+export function expandPool(entries: CubeEntry[]): PoolCard[] {
+  const out: PoolCard[] = [];
+  for (const e of entries) {
+    for (let i = 0; i < e.qty; i++) out.push({ uid: `${e.id}#${i}`, entry: e });
+  }
+  return out;
+}
+
+/**
+ * The copies in a fixed order (by uid), whatever the order of the cube rows,
+ * so that shuffling with the same seed always deals the same cards.
+ */
+export function stablePool(entries: CubeEntry[]): PoolCard[] {
+  return expandPool(entries).sort((a, b) => (a.uid < b.uid ? -1 : a.uid > b.uid ? 1 : 0));
+}
+
+/** "qty name" lines, one per distinct card name, sorted by name. */
+export function countLines(cards: PoolCard[]): string[] {
+  const counts = new Map<string, number>();
+  for (const c of cards) counts.set(c.entry.name, (counts.get(c.entry.name) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([name, n]) => `${n} ${name}`);
+}
+
+export function poolToText(cards: PoolCard[]): string {
+  return countLines(cards).join("\n");
+}
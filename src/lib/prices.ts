@@ -0,0 +1,117 @@
+import { COLLECTION_BATCH_SIZE, fetchCollection, type ScryfallPrices } from "./scryfall";
+import type { CubeEntry } from "./storage";
+
+const PREFS_KEY = "mtg_cube_prices_v1";
+
+export type Currency = "usd" | "eur";
+
+export const CURRENCIES: Array<{ id: Currency; label: string }> = [
+  { id: "usd", label: "USD ($)" },
+  { id: "eur", label: "EUR (€)" }
+];
+
+export type CardPrices = {
+  usd?: number;
+  usd_foil?: number;
+  eur?: number;
+  eur_foil?: number;
+};
+
+export type PricePrefs = {
+  currency: Currency;
+};
+
+export type CubeCost = {
+  total: number;
+  unpriced: number; // rows without any price in the chosen currency
+  oldest_at?: number; // oldest prices_at among priced rows
+};
+
+function toNumber(v: string | null | undefined): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Scryfall price strings to numbers; undefined when no price is known at all. */
+export function parsePrices(p?: ScryfallPrices): CardPrices | undefined {
+  if (!p) return undefined;
+  const out: CardPrices = { usd: toNumber(p.usd), usd_foil: toNumber(p.usd_foil), eur: toNumber(p.eur), eur_foil: toNumber(p.eur_foil) };
+  return Object.values(out).some((v) => v !== undefined) ? out : undefined;
+}
+
+export function loadPricePrefs(): PricePrefs {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    return { currency: "usd", ...(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return { currency: "usd" };
+  }
+}
+
+export function savePricePrefs(p: PricePrefs) {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(p));
+}
+
+/** Price of one copy: non-foil, or foil for foil-only printings. */
+export function unitPrice(prices: CardPrices | undefined, currency: Currency): number | null {
+  if (!prices) return null;
+  return prices[currency] ?? prices[`${currency}_foil`] ?? null;
+}
+
+export function cubeCost(entries: CubeEntry[], currency: Currency): CubeCost {
+  let total = 0;
+  let unpriced = 0;
+  let oldest_at: number | undefined;
+  for (const e of entries) {
+    const p = unitPrice(e.prices, currency);
+    if (p === null) {
+      unpriced++;
+      continue;
+    }
+    total += p * e.qty;
+    if (e.prices_at && (oldest_at === undefined || e.prices_at < oldest_at)) oldest_at = e.prices_at;
+  }
+  return { total, unpriced, oldest_at };
+}
+
+/** Entries sorted by total price (unit price × qty), most expensive first. */
+export function mostExpensive(entries: CubeEntry[], currency: Currency, limit = 10): Array<{ entry: CubeEntry; unit: number; total: number }> {
+  return entries
+    .map((entry) => ({ entry, unit: unitPrice(entry.prices, currency) }))
+    .filter((x): x is { entry: CubeEntry; unit: number } => x.unit !== null)
+    .map((x) => ({ ...x, total: x.unit * x.entry.qty }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+}
+
+export function formatPrice(value: number, currency: Currency): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: currency.toUpperCase() }).format(value);
+}
+
+/** Warning text when adding `extra` to the current cost goes over the budget, else null. */
+export function budgetWarning(cost: number, extra: number, budget: number | undefined, currency: Currency): string | null {
+  if (budget === undefined || extra <= 0 || cost + extra <= budget) return null;
+  return `Supera il budget: ${formatPrice(cost + extra, currency)} su ${formatPrice(budget, currency)} (+${formatPrice(cost + extra - budget, currency)})`;
+}
+
+/** Re-fetch prices for every entry by id, in /cards/collection batches. */
+export async function fetchPrices(
+  entries: CubeEntry[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Map<string, CardPrices | undefined>> {
+  const out = new Map<string, CardPrices | undefined>();
+  for (let i = 0; i < entries.length; i += COLLECTION_BATCH_SIZE) {
+    const batch = entries.slice(i, i + COLLECTION_BATCH_SIZE);
+    const { data } = await fetchCollection(batch.map((e) => ({ id: e.id })), signal);
+    for (const c of data) out.set(c.id, parsePrices(c.prices));
+    onProgress?.(Math.min(i + batch.length, entries.length), entries.length);
+  }
+  return out;
+}
+
+/** Store fetched prices on the matching entries; entries not fetched keep their old prices. */
+export function applyPrices(prev: CubeEntry[], prices: Map<string, CardPrices | undefined>, at: number): CubeEntry[] {
+  return prev.map((e) => (prices.has(e.id) ? { ...e, prices: prices.get(e.id), prices_at: at } : e));
+}
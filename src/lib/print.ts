@@ -0,0 +1,63 @@
+import { COLLECTION_BATCH_SIZE, fetchCollection, getImage, type ScryfallCard } from "./scryfall";
+import type { CubeEntry } from "./storage";
+
+export type PaperSize = "a4" | "letter";
+
+export const PAPER_SIZES: Array<{ id: PaperSize; label: string; width_mm: number; height_mm: number }> = [
+  { id: "a4", label: "A4", width_mm: 210, height_mm: 297 },
+  { id: "letter", label: "Letter", width_mm: 215.9, height_mm: 279.4 }
+];
+
+// Real Magic card size; 3×3 fits both A4 and Letter
+export const CARD_WIDTH_MM = 63;
+export const CARD_HEIGHT_MM = 88;
+export const CARDS_PER_PAGE = 9;
+
+/** One physical card on a proxy sheet. */
+export type ProxySlot = {
+  key: string;
+  entry: CubeEntry;
+  image?: string; // full-size image; the sheet prints a text proxy without one
+  back: boolean;
+};
+
+/** Full-size images of a card, one per printed side: front only, or front and back for double-sided cards. */
+function cardImages(card: ScryfallCard): string[] {
+  const sides = !card.image_uris && card.card_faces && card.card_faces.length > 1 ? card.card_faces.map((_, i) => getImage(card, i)) : [getImage(card)];
+  return sides.filter((u): u is string => !!u);
+}
+
+/** Fetch full-size image urls for every entry by id, in /cards/collection batches. */
+export async function fetchCardImages(
+  entries: CubeEntry[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Map<string, string[]>> {
+  const out = new Map<string, string[]>();
+  for (let i = 0; i < entries.length; i += COLLECTION_BATCH_SIZE) {
+    const batch = entries.slice(i, i + COLLECTION_BATCH_SIZE);
+    const { data } = await fetchCollection(batch.map((e) => ({ id: e.id })), signal);
+    for (const c of data) out.set(c.id, cardImages(c));
+    onProgress?.(Math.min(i + batch.length, entries.length), entries.length);
+  }
+  return out;
+}
+
+/** One slot per copy (qty), optionally followed by the back of double-sided cards. */
+export function proxySlots(entries: CubeEntry[], images: Map<string, string[]>, withBacks: boolean): ProxySlot[] {
+  const out: ProxySlot[] = [];
+  for (const entry of entries) {
+    const [front, back] = images.get(entry.id) ?? [];
+    for (let i = 0; i < entry.qty; i++) {
+      out.push({ key: `${entry.id}-${i}`, entry, image: front, back: false });
+      if (withBacks && back) out.push({ key: `${entry.id}-${i}-back`, entry, image: back, back: true });
+    }
+  }
+  return out;
+}
+
+export function paginate<T>(items: T[], perPage = CARDS_PER_PAGE): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += perPage) pages.push(items.slice(i, i + perPage));
+  return pages;
+}
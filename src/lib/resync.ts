@@ -0,0 +1,112 @@
+import { COLLECTION_BATCH_SIZE, fetchCollection, getThumb, type CardIdentifier, type ScryfallCard } from "./scryfall";
+import { cardToEntry, replacePrinting, type CubeEntry } from "./storage";
+
+/** Fields compared between the stored snapshot and the current Scryfall card. */
+export const RESYNC_FIELDS = ["name", "type_line", "mana_cost", "cmc", "rarity", "color_identity", "thumb", "faces"] as const;
+export type ResyncField = (typeof RESYNC_FIELDS)[number];
+
+export type FieldChange = {
+  field: ResyncField;
+  before: string;
+  after: string;
+};
+
+/** An entry whose card still resolves but differs from the stored snapshot. */
+export type ResyncDiff = {
+  entry: CubeEntry;
+  card: ScryfallCard;
+  changes: FieldChange[];
+};
+
+/** An entry whose Scryfall id no longer resolves; `card` is a match by set/number or name, if any. */
+export type ResyncMissing = {
+  entry: CubeEntry;
+  card?: ScryfallCard;
+};
+
+export type ResyncReport = {
+  checked: number;
+  changed: ResyncDiff[];
+  missing: ResyncMissing[];
+};
+
+function fieldValue(field: ResyncField, e: CubeEntry): string {
+  if (field === "faces") return (e.faces ?? []).map((f) => `${f.name}: ${f.mana_cost ?? ""} ${f.type_line}`.trim()).join(" | ");
+  const v = e[field];
+  if (Array.isArray(v)) return v.join("");
+  return v === undefined || v === null ? "" : String(v);
+}
+
+/** Field-by-field diff of an entry against the entry the card would produce. */
+export function diffEntry(entry: CubeEntry, card: ScryfallCard): FieldChange[] {
+  const fresh = cardToEntry(card, getThumb(card));
+  const changes: FieldChange[] = [];
+  for (const field of RESYNC_FIELDS) {
+    const before = fieldValue(field, entry);
+    const after = fieldValue(field, fresh);
+    if (before !== after) changes.push({ field, before, after });
+  }
+  return changes;
+}
+
+async function collect(identifiers: CardIdentifier[], signal?: AbortSignal, onBatch?: (n: number) => void): Promise<ScryfallCard[]> {
+  const out: ScryfallCard[] = [];
+  for (let i = 0; i < identifiers.length; i += COLLECTION_BATCH_SIZE) {
+    const batch = identifiers.slice(i, i + COLLECTION_BATCH_SIZE);
+    const { data } = await fetchCollection(batch, signal);
+    out.push(...data);
+    onBatch?.(batch.length);
+  }
+  return out;
+}
+
+/**
+ * Re-fetch every entry by Scryfall id in /cards/collection batches and report
+ * what changed. Ids that no longer resolve get a second lookup by set and
+ * collector number, then by name, to suggest a replacement.
+ */
+export async function resyncEntries(
+  entries: CubeEntry[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ResyncReport> {
+  let done = 0;
+  const byId = new Map<string, ScryfallCard>();
+  const cards = await collect(entries.map((e) => ({ id: e.id })), signal, (n) => {
+    done += n;
+    onProgress?.(done, entries.length);
+  });
+  for (const c of cards) byId.set(c.id, c);
+
+  const changed: ResyncDiff[] = [];
+  const lost: CubeEntry[] = [];
+  for (const entry of entries) {
+    const card = byId.get(entry.id);
+    if (!card) {
+      lost.push(entry);
+      continue;
+    }
+    const changes = diffEntry(entry, card);
+    if (changes.length > 0) changed.push({ entry, card, changes });
+  }
+
+  const missing: ResyncMissing[] = [];
+  if (lost.length > 0) {
+    const bySetNumber = await collect(lost.map((e) => ({ set: e.set, collector_number: e.collector_number })), signal);
+    const stillLost = lost.filter((e) => !bySetNumber.some((c) => c.set === e.set && c.collector_number === e.collector_number));
+    const byName = await collect(stillLost.map((e) => ({ name: e.name })), signal);
+    for (const entry of lost) {
+      const card =
+        bySetNumber.find((c) => c.set === entry.set && c.collector_number === entry.collector_number) ??
+        byName.find((c) => c.name === entry.name || c.name.split(" // ")[0] === entry.name);
+      missing.push({ entry, card });
+    }
+  }
+
+  return { checked: entries.length, changed, missing };
+}
+
+/** Apply the accepted updates; qty, tags and notes of each entry are kept. */
+export function applyResync(prev: CubeEntry[], accepted: Array<{ entryId: string; card: ScryfallCard }>): CubeEntry[] {
+  return accepted.reduce((acc, a) => replacePrinting(acc, a.entryId, a.card, getThumb(a.card)), prev);
+}
@@ -0,0 +1,151 @@
+import { BUCKET_LABELS, COLOR_BUCKETS, colorBucket, type ColorBucket } from "./analytics";
+import type { CubeEntry } from "./storage";
+
+/** Cards at or above this mana value count against `max_high_cmc`. */
+export const HIGH_CMC = 6;
+
+export const TARGET_SIZES = [360, 450, 540] as const;
+
+/** Design constraints of a cube; every rule is off when unset/empty. */
+export type CubeRules = {
+  singleton: boolean; // every card at most once (qty 1, one row per name)
+  target_size?: number; // total qty the cube must not exceed
+  color_quotas: Partial<Record<ColorBucket, number>>; // max total qty per color bucket
+  max_high_cmc?: number;
+  banned: string[]; // card names, as typed by the user
+};
+
+export type RuleId = "singleton" | "size" | "color" | "high_cmc" | "banned";
+
+export type RuleViolation = {
+  key: string; // rule plus subject, e.g. "color:W"
+  rule: RuleId;
+  message: string;
+  excess: number; // how far over the limit (copies or cards)
+  entries: CubeEntry[]; // offending rows; empty when the cube as a whole is the problem
+};
+
+export const DEFAULT_RULES: CubeRules = { singleton: false, color_quotas: {}, banned: [] };
+
+function positiveInt(v: unknown): number | undefined {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/** Rules read back from storage, with anything malformed dropped. */
+export function normalizeRules(x: any): CubeRules {
+  if (!x || typeof x !== "object") return DEFAULT_RULES;
+  const color_quotas: Partial<Record<ColorBucket, number>> = {};
+  for (const b of COLOR_BUCKETS) {
+    const n = x.color_quotas && typeof x.color_quotas === "object" ? x.color_quotas[b] : undefined;
+    // 0 is a valid quota ("no cards of this color")
+    if (Number.isInteger(n) && n >= 0) color_quotas[b] = n;
+  }
+  const max_high_cmc = Number.isInteger(x.max_high_cmc) && x.max_high_cmc >= 0 ? x.max_high_cmc : undefined;
+  return {
+    singleton: x.singleton === true,
+    target_size: positiveInt(x.target_size),
+    color_quotas,
+    max_high_cmc,
+    banned: Array.isArray(x.banned)
+      ? Array.from(new Set(x.banned.filter((n: unknown): n is string => typeof n === "string").map((n: string) => n.trim()).filter(Boolean)))
+      : []
+  };
+}
+
+export function hasRules(r: CubeRules): boolean {
+  return r.singleton || r.target_size !== undefined || Object.keys(r.color_quotas).length > 0 || r.max_high_cmc !== undefined || r.banned.length > 0;
+}
+
+function totalQty(entries: CubeEntry[]): number {
+  return entries.reduce((acc, e) => acc + e.qty, 0);
+}
+
+/** Lowercased full name and face names, so "Fire" bans "Fire // Ice". */
+function nameKeys(e: CubeEntry): string[] {
+  const full = e.name.toLowerCase();
+  const faces = full.split(" // ");
+  return faces.length > 1 ? [full, ...faces] : [full];
+}
+
+/** Every rule the cube breaks right now. */
+export function lintCube(entries: CubeEntry[], rules: CubeRules): RuleViolation[] {
+  const out: RuleViolation[] = [];
+
+  if (rules.singleton) {
+    const byName = new Map<string, CubeEntry[]>();
+    for (const e of entries) {
+      const k = e.name.toLowerCase();
+      byName.set(k, [...(byName.get(k) ?? []), e]);
+    }
+    for (const rows of byName.values()) {
+      const copies = totalQty(rows);
+      if (copies <= 1) continue;
+      out.push({
+        key: `singleton:${rows[0].name.toLowerCase()}`,
+        rule: "singleton",
+        message: `${rows[0].name}: ${copies} copie in un cubo singleton`,
+        excess: copies - 1,
+        entries: rows
+      });
+    }
+  }
+
+  if (rules.target_size !== undefined) {
+    const total = totalQty(entries);
+    if (total > rules.target_size) {
+      out.push({
+        key: "size",
+        rule: "size",
+        message: `${total} carte, oltre la dimensione prevista di ${rules.target_size} (+${total - rules.target_size})`,
+        excess: total - rules.target_size,
+        entries: []
+      });
+    }
+  }
+
+  for (const b of COLOR_BUCKETS) {
+    const quota = rules.color_quotas[b];
+    if (quota === undefined) continue;
+    const rows = entries.filter((e) => colorBucket(e) === b);
+    const count = totalQty(rows);
+    if (count <= quota) continue;
+    out.push({
+      key: `color:${b}`,
+      rule: "color",
+      message: `${BUCKET_LABELS[b]}: ${count} carte su una quota di ${quota} (+${count - quota})`,
+      excess: count - quota,
+      entries: rows
+    });
+  }
+
+  if (rules.max_high_cmc !== undefined) {
+    const rows = entries.filter((e) => (e.cmc ?? 0) >= HIGH_CMC);
+    const count = totalQty(rows);
+    if (count > rules.max_high_cmc) {
+      out.push({
+        key: "high_cmc",
+        rule: "high_cmc",
+        message: `${count} carte con CMC ≥ ${HIGH_CMC}, massimo ${rules.max_high_cmc} (+${count - rules.max_high_cmc})`,
+        excess: count - rules.max_high_cmc,
+        entries: rows
+      });
+    }
+  }
+
+  if (rules.banned.length > 0) {
+    const banned = new Set(rules.banned.map((n) => n.toLowerCase()));
+    for (const e of entries) {
+      if (!nameKeys(e).some((k) => banned.has(k))) continue;
+      out.push({ key: `banned:${e.id}`, rule: "banned", message: `${e.name} è nella lista delle carte bandite`, excess: e.qty, entries: [e] });
+    }
+  }
+
+  return out;
+}
+
+/** Violations that a change (e.g. adding a card) would introduce or make worse. */
+export function newViolations(before: CubeEntry[], after: CubeEntry[], rules: CubeRules): RuleViolation[] {
+  const prev = new Map(lintCube(before, rules).map((v) => [v.key, v.excess]));
+  return lintCube(after, rules).filter((v) => v.excess > (prev.get(v.key) ?? 0));
+}
@@ -0,0 +1,55 @@
+import { entryFaces } from "./faces";
+import type { CubeEntry } from "./storage";
+
+/**
+ * Version of the `CubeEntry` shape written by this build. Stored cubes
+ * (`CubeMeta.version`), snapshots and exported JSON files carry the version
+ * they were written with; older data is upgraded step by step on the way in.
+ *
+ * To change the entry shape: bump SCHEMA_VERSION and append one step to
+ * MIGRATIONS that turns version N-1 entries into version N entries.
+ */
+export const SCHEMA_VERSION = 2;
+
+type Migration = {
+  to: number;
+  description: string;
+  migrate: (entries: any[]) => any[];
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "facce delle carte multi-faccia ricavate da nome e tipo “A // B”",
+    migrate: (entries) =>
+      entries.map((e) => {
+        if (!e || typeof e !== "object" || e.faces || typeof e.name !== "string" || typeof e.type_line !== "string") return e;
+        const faces = entryFaces(e);
+        if (faces.length < 2) return e;
+        return { ...e, faces: faces.map((f) => ({ name: f.name, type_line: f.type_line, mana_cost: f.mana_cost })) };
+      })
+  }
+];
+
+/** Schema version of stored or imported data; data written before versioning counts as 1. */
+function readVersion(v: unknown, source: string): number {
+  if (v === undefined || v === null) return 1;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`${source}: versione dei dati non valida (${String(v)}).`);
+  if (n > SCHEMA_VERSION) {
+    throw new Error(
+      `${source} è stato creato con una versione più recente dell'app (dati v${n}, questa versione legge fino alla v${SCHEMA_VERSION}). Aggiorna la pagina o l'app e riprova.`
+    );
+  }
+  return n;
+}
+
+/** Bring entries written with schema `version` up to SCHEMA_VERSION. */
+export function migrateEntries(entries: unknown[], version: unknown, source: string): CubeEntry[] {
+  const from = readVersion(version, source);
+  let out = entries as any[];
+  for (const step of MIGRATIONS) {
+    if (step.to > from) out = step.migrate(out);
+  }
+  return out as CubeEntry[];
+}
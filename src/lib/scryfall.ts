@@ -1,54 +1,235 @@
+import { localAutocomplete, localCollection, localExact, localFuzzy, localPrints, type BulkIndex } from "./bulkData";
+import { createScryfallClient, ScryfallError, type RequestOptions, type ScryfallClient } from "./scryfallClient";
+
+/** Scryfall sends prices as decimal strings, null when unknown. */
+export type ScryfallPrices = {
+  usd?: string | null;
+  usd_foil?: string | null;
+  eur?: string | null;
+  eur_foil?: string | null;
+};
+
+export type ScryfallCardFace = {
+  name: string;
+  mana_cost?: string;
+  type_line?: string;
+  image_uris?: { small?: string; normal?: string };
+};
+
 export type ScryfallCard = {
   id: string;
   name: string;
 
   set: string;
+  set_name?: string;
   collector_number: string;
   rarity: string;
   type_line: string;
   mana_cost?: string;
   cmc?: number;
   color_identity?: string[];
+  produced_mana?: string[];
+  mtgo_id?: number;
+  arena_id?: number;
+  released_at?: string;
+  prices?: ScryfallPrices;
 
   scryfall_uri: string;
   image_uris?: { small?: string; normal?: string };
-  card_faces?: Array<{ image_uris?: { small?: string; normal?: string } }>;
+  layout?: string;
+  card_faces?: ScryfallCardFace[];
 };
 
-const API = "https://api.scryfall.com";
+let client: ScryfallClient = createScryfallClient();
 
-export async function autocompleteNames(q: string): Promise<string[]> {
-  const url = new URL(`${API}/cards/autocomplete`);
-  url.searchParams.set("q", q);
-  url.searchParams.set("include_extras", "false");
-  url.searchParams.set("include_multilingual", "false");
+/** Swap the client used by every helper below (e.g. one pointed at a local stub server). */
+export function setScryfallClient(next: ScryfallClient) {
+  client = next;
+}
+
+let local: BulkIndex | null = null;
+let offlineOnly = false;
+
+/** Register the offline index imported from a bulk file (null to drop it). */
+export function setLocalData(index: BulkIndex | null, onlyLocal: boolean) {
+  local = index;
+  offlineOnly = onlyLocal;
+}
 
-  const res = await fetch(url.toString(), { headers: { "Accept": "application/json" } });
-  if (!res.ok) throw new Error(`Autocomplete error: ${res.status}`);
-  const data = await res.json();
-  return (data?.data ?? []) as string[];
+export type DataSource = "online" | "local";
+
+/** Lookups use the local index when forced, or when the browser reports no network. */
+export function activeDataSource(): DataSource {
+  return local && (offlineOnly || !navigator.onLine) ? "local" : "online";
 }
 
-export async function fetchByExactName(name: string): Promise<ScryfallCard> {
-  // Try exact first
-  const exact = new URL(`${API}/cards/named`);
-  exact.searchParams.set("exact", name);
+/** Retry and timeout settings for one online attempt of a lookup. */
+type Attempt = Pick<RequestOptions, "maxRetries" | "timeoutMs">;
+
+// With a local index to fall back on, waiting through the retries only delays the answer
+const FALLBACK_ATTEMPT: Attempt = { maxRetries: 0, timeoutMs: 4000 };
+// After a network failure, lookups stay local for a while instead of failing again on every keystroke
+const NETWORK_RETRY_MS = 60_000;
+let networkDownUntil = 0;
+
+async function lookup<T>(online: (attempt: Attempt) => Promise<T>, offline: (index: BulkIndex) => T): Promise<T> {
+  if (local && (activeDataSource() === "local" || Date.now() < networkDownUntil)) return offline(local);
+  try {
+    const result = await online(local ? FALLBACK_ATTEMPT : {});
+    networkDownUntil = 0;
+    return result;
+  } catch (e) {
+    // Connection lost mid-session: answer from the local index if there is one
+    if (local && e instanceof ScryfallError && e.kind === "network") {
+      networkDownUntil = Date.now() + NETWORK_RETRY_MS;
+      return offline(local);
+    }
+    throw e;
+  }
+}
 
-  const res = await fetch(exact.toString(), { headers: { "Accept": "application/json" } });
-  if (res.ok) return (await res.json()) as ScryfallCard;
+export async function autocompleteNames(q: string, signal?: AbortSignal): Promise<string[]> {
+  return lookup(
+    async (attempt) => {
+      const data = await client.request<{ data?: string[] }>("/cards/autocomplete", {
+        params: { q, include_extras: "false", include_multilingual: "false" },
+        signal,
+        ...attempt
+      });
+      return data?.data ?? [];
+    },
+    (index) => localAutocomplete(index, q)
+  );
+}
+
+export async function fetchByExactName(name: string, signal?: AbortSignal): Promise<ScryfallCard> {
+  return lookup(
+    async (attempt) => {
+      try {
+        return await client.request<ScryfallCard>("/cards/named", { params: { exact: name }, signal, ...attempt });
+      } catch (e) {
+        // Exact miss: fall back to fuzzy
+        if (e instanceof ScryfallError && e.kind === "not_found") return fetchByFuzzyName(name, signal);
+        throw e;
+      }
+    },
+    (index) => {
+      try {
+        return localExact(index, name);
+      } catch {
+        return localFuzzy(index, name);
+      }
+    }
+  );
+}
+
+export type CardIdentifier =
+  | { id: string }
+  | { name: string; set?: string }
+  | { set: string; collector_number: string };
+
+export type CollectionResult = {
+  data: ScryfallCard[];
+  not_found: CardIdentifier[];
+};
+
+/** Max identifiers accepted by a single /cards/collection request. */
+export const COLLECTION_BATCH_SIZE = 75;
+
+export async function fetchCollection(identifiers: CardIdentifier[], signal?: AbortSignal): Promise<CollectionResult> {
+  const batch = identifiers.slice(0, COLLECTION_BATCH_SIZE);
+  return lookup(
+    async (attempt) => {
+      const data = await client.request<{ data?: ScryfallCard[]; not_found?: CardIdentifier[] }>("/cards/collection", {
+        method: "POST",
+        body: { identifiers: batch },
+        signal,
+        ...attempt
+      });
+      return {
+        data: data?.data ?? [],
+        not_found: data?.not_found ?? []
+      };
+    },
+    (index) => localCollection(index, batch)
+  );
+}
+
+/** Fuzzy lookup; throws a ScryfallError of kind "ambiguous" when several cards match. */
+export async function fetchByFuzzyName(name: string, signal?: AbortSignal): Promise<ScryfallCard> {
+  return lookup(
+    (attempt) => client.request<ScryfallCard>("/cards/named", { params: { fuzzy: name }, signal, ...attempt }),
+    (index) => localFuzzy(index, name)
+  );
+}
+
+export type SearchPage = {
+  data: ScryfallCard[];
+  total_cards: number;
+  has_more: boolean;
+  next_page?: string;
+};
+
+/**
+ * One page of /cards/search. Pass either a full Scryfall query or the
+ * `next_page` URL of a previous page. A query with no match is an empty page.
+ */
+export async function searchCards(
+  query: string,
+  opts: { nextPage?: string; unique?: string; order?: string; dir?: string; signal?: AbortSignal } & Attempt = {}
+): Promise<SearchPage> {
+  if (activeDataSource() === "local") {
+    throw new ScryfallError("network", "La ricerca avanzata richiede la connessione a Scryfall (non disponibile con i dati offline)");
+  }
+  let data: any;
+  try {
+    data = opts.nextPage
+      ? await client.request(opts.nextPage, { signal: opts.signal, maxRetries: opts.maxRetries, timeoutMs: opts.timeoutMs })
+      : await client.request("/cards/search", {
+          params: { q: query, unique: opts.unique, order: opts.order, dir: opts.dir },
+          signal: opts.signal,
+          maxRetries: opts.maxRetries,
+          timeoutMs: opts.timeoutMs
+        });
+  } catch (e) {
+    if (e instanceof ScryfallError && e.kind === "not_found") return { data: [], total_cards: 0, has_more: false };
+    throw e;
+  }
+  return {
+    data: (data?.data ?? []) as ScryfallCard[],
+    total_cards: Number(data?.total_cards ?? 0),
+    has_more: Boolean(data?.has_more),
+    next_page: data?.next_page
+  };
+}
 
-  // Fallback fuzzy
-  const fuzzy = new URL(`${API}/cards/named`);
-  fuzzy.searchParams.set("fuzzy", name);
-  const res2 = await fetch(fuzzy.toString(), { headers: { "Accept": "application/json" } });
-  if (!res2.ok) throw new Error(`Card fetch error: ${res2.status}`);
-  return (await res2.json()) as ScryfallCard;
+/**
+ * All printings of a card (Scryfall prints search), newest first.
+ * Follows `has_more`/`next_page` up to `maxPages` pages. Offline, only the
+ * printings present in the bulk file are returned.
+ */
+export async function fetchPrints(name: string, maxPages = 5, signal?: AbortSignal): Promise<ScryfallCard[]> {
+  return lookup(
+    async (attempt) => {
+      const query = `!"${name.replace(/"/g, "")}"`;
+      const out: ScryfallCard[] = [];
+      let page = await searchCards(query, { unique: "prints", order: "released", dir: "desc", signal, ...attempt });
+      out.push(...page.data);
+      for (let i = 1; page.has_more && page.next_page && i < maxPages; i++) {
+        page = await searchCards(query, { nextPage: page.next_page, signal, ...attempt });
+        out.push(...page.data);
+      }
+      return out;
+    },
+    (index) => localPrints(index, name)
+  );
 }
 
-export function getThumb(card: ScryfallCard): string | undefined {
-  return card.image_uris?.small ?? card.card_faces?.[0]?.image_uris?.small;
+/** Single-image cards (split, adventure, flip) have `image_uris` on the card; double-sided ones per face. */
+export function getThumb(card: ScryfallCard, face = 0): string | undefined {
+  return card.image_uris?.small ?? card.card_faces?.[face]?.image_uris?.small ?? card.card_faces?.[0]?.image_uris?.small;
 }
 
-export function getImage(card: ScryfallCard): string | undefined {
-  return card.image_uris?.normal ?? card.card_faces?.[0]?.image_uris?.normal;
+export function getImage(card: ScryfallCard, face = 0): string | undefined {
+  return card.image_uris?.normal ?? card.card_faces?.[face]?.image_uris?.normal ?? card.card_faces?.[0]?.image_uris?.normal;
 }
@@ -0,0 +1,194 @@
+/**
+ * Shared HTTP client for the Scryfall API. Requests start one at a time with a
+ * minimum gap (Scryfall asks for 50-100ms between requests, ~10/s), transient
+ * failures (429, 5xx, network) are retried with exponential backoff honoring
+ * `Retry-After`, and every request can be cancelled with an AbortSignal.
+ */
+
+export const DEFAULT_SCRYFALL_API = "https://api.scryfall.com";
+
+export type ScryfallErrorKind = "not_found" | "ambiguous" | "bad_request" | "rate_limited" | "server" | "network" | "aborted";
+
+export class ScryfallError extends Error {
+  readonly kind: ScryfallErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ScryfallErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "ScryfallError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/** True for requests cancelled by the caller: these are never shown as errors. */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof ScryfallError && e.kind === "aborted";
+}
+
+export type ScryfallClientOptions = {
+  /** API root, e.g. a local stub server. Defaults to `VITE_SCRYFALL_API` or the public API. */
+  baseUrl?: string;
+  minIntervalMs?: number;
+  maxRetries?: number;
+  retryBaseMs?: number;
+  fetchImpl?: typeof fetch;
+};
+
+export type RequestOptions = {
+  method?: "GET" | "POST";
+  params?: Record<string, string | undefined>;
+  body?: unknown;
+  signal?: AbortSignal;
+  /** Overrides the client's retry count for this request (0 = fail on the first error). */
+  maxRetries?: number;
+  /** Give up on an attempt that has no response after this long; it counts as a network error. */
+  timeoutMs?: number;
+};
+
+export type ScryfallClient = {
+  baseUrl: string;
+  /** `target` is an API path ("/cards/named") or an absolute URL such as a `next_page`. */
+  request<T>(target: string, opts?: RequestOptions): Promise<T>;
+};
+
+function abortError(): ScryfallError {
+  return new ScryfallError("aborted", "Richiesta annullata");
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** `Retry-After` as seconds or HTTP date; null when absent or unreadable. */
+function retryAfterMs(res: Response): number | null {
+  const raw = res.headers.get("Retry-After");
+  if (!raw) return null;
+  const secs = Number(raw);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(raw);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+async function errorFromResponse(res: Response): Promise<ScryfallError> {
+  const body = await res.json().catch(() => null);
+  const details: string | undefined = body?.details;
+  if (res.status === 404) {
+    if (body?.type === "ambiguous") return new ScryfallError("ambiguous", details ?? "Nome ambiguo: corrisponde a più carte", 404);
+    return new ScryfallError("not_found", details ?? "Carta non trovata", 404);
+  }
+  if (res.status === 429) return new ScryfallError("rate_limited", "Troppe richieste a Scryfall, riprova tra poco", 429);
+  if (res.status >= 500) return new ScryfallError("server", `Scryfall non disponibile (${res.status})`, res.status);
+  return new ScryfallError("bad_request", details ?? `Richiesta non valida (${res.status})`, res.status);
+}
+
+function envBaseUrl(): string | undefined {
+  return import.meta.env?.VITE_SCRYFALL_API || undefined;
+}
+
+export function createScryfallClient(opts: ScryfallClientOptions = {}): ScryfallClient {
+  const baseUrl = (opts.baseUrl ?? envBaseUrl() ?? DEFAULT_SCRYFALL_API).replace(/\/+$/, "");
+  const minInterval = opts.minIntervalMs ?? 100;
+  const maxRetries = opts.maxRetries ?? 3;
+  const retryBase = opts.retryBaseMs ?? 500;
+  const doFetch = opts.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  // Request starts are chained so that they are spaced by at least `minInterval`.
+  let queue: Promise<void> = Promise.resolve();
+  let notBefore = 0;
+
+  function waitTurn(signal: AbortSignal): Promise<void> {
+    const turn = queue.then(async () => {
+      if (signal.aborted) return; // a cancelled request does not use its slot
+      const wait = notBefore - Date.now();
+      if (wait > 0) await delay(wait);
+      notBefore = Date.now() + minInterval;
+    });
+    queue = turn;
+    return turn;
+  }
+
+  function resolveTarget(target: string, params?: Record<string, string | undefined>): string {
+    const url = new URL(/^https?:\/\//.test(target) ? target : `${baseUrl}${target}`);
+    for (const [k, v] of Object.entries(params ?? {})) {
+      if (v !== undefined) url.searchParams.set(k, v);
+    }
+    return url.toString();
+  }
+
+  async function fetchWithTimeout(url: string, init: RequestInit, signal: AbortSignal, timeoutMs?: number): Promise<Response> {
+    if (timeoutMs === undefined) return doFetch(url, init);
+    // The caller's signal still cancels; the timer aborts only this attempt
+    const ctrl = new AbortController();
+    const onAbort = () => ctrl.abort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+    try {
+      return await doFetch(url, { ...init, signal: ctrl.signal });
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async function request<T>(target: string, ro: RequestOptions = {}): Promise<T> {
+    const signal = ro.signal ?? new AbortController().signal;
+    const url = resolveTarget(target, ro.params);
+    const init: RequestInit = {
+      method: ro.method ?? "GET",
+      headers: ro.body === undefined ? { "Accept": "application/json" } : { "Accept": "application/json", "Content-Type": "application/json" },
+      body: ro.body === undefined ? undefined : JSON.stringify(ro.body),
+      signal
+    };
+
+    const retries = ro.maxRetries ?? maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      await waitTurn(signal);
+      if (signal.aborted) throw abortError();
+
+      let res: Response;
+      try {
+        res = await fetchWithTimeout(url, init, signal, ro.timeoutMs);
+      } catch {
+        if (signal.aborted) throw abortError();
+        if (attempt < retries) {
+          await delay(retryBase * 2 ** attempt, signal);
+          continue;
+        }
+        throw new ScryfallError("network", "Scryfall non raggiungibile: controlla la connessione");
+      }
+
+      if (res.ok) {
+        try {
+          return (await res.json()) as T;
+        } catch {
+          if (signal.aborted) throw abortError();
+          throw new ScryfallError("server", "Risposta Scryfall non valida", res.status);
+        }
+      }
+
+      if ((res.status === 429 || res.status >= 500) && attempt < retries) {
+        const wait = retryAfterMs(res) ?? retryBase * 2 ** attempt;
+        // A 429 pauses the whole queue, not just this request
+        if (res.status === 429) notBefore = Math.max(notBefore, Date.now() + wait);
+        await delay(wait, signal);
+        continue;
+      }
+      throw await errorFromResponse(res);
+    }
+  }
+
+  return { baseUrl, request };
+}
@@ -0,0 +1,64 @@
+import { countLines, stablePool, type PoolCard } from "./pool";
+import { shuffle, type Rng } from "./random";
+import type { CubeEntry } from "./storage";
+
+export const BASIC_LANDS = [
+  { color: "W", name: "Plains" },
+  { color: "U", name: "Island" },
+  { color: "B", name: "Swamp" },
+  { color: "R", name: "Mountain" },
+  { color: "G", name: "Forest" }
+] as const;
+
+export type BasicColor = (typeof BASIC_LANDS)[number]["color"];
+
+export type SealedDeck = {
+  main: string[]; // PoolCard uids
+  side: string[];
+  basics: Record<BasicColor, number>;
+};
+
+/**
+ * Deal `count` pools of `size` cards from the cube without replacement
+ * (qty respected). The same rng seed always produces the same deal, however
+ * the cube rows are ordered.
+ */
+export function dealSealed(entries: CubeEntry[], count: number, size: number, rng: Rng): PoolCard[][] {
+  const pool = stablePool(entries);
+  const needed = count * size;
+  if (pool.length < needed) {
+    throw new Error(`Il cubo ha ${pool.length} carte, ne servono ${needed} (${count} pool da ${size}).`);
+  }
+  const shuffled = shuffle(pool, rng);
+  return Array.from({ length: count }, (_, i) => shuffled.slice(i * size, (i + 1) * size));
+}
+
+/** A fresh deck for a pool: everything starts in the sideboard. */
+export function emptyDeck(pool: PoolCard[]): SealedDeck {
+  return { main: [], side: pool.map((c) => c.uid), basics: { W: 0, U: 0, B: 0, R: 0, G: 0 } };
+}
+
+export function moveCard(deck: SealedDeck, uid: string, to: "main" | "side"): SealedDeck {
+  const main = deck.main.filter((u) => u !== uid);
+  const side = deck.side.filter((u) => u !== uid);
+  if (to === "main") main.push(uid);
+  else side.push(uid);
+  return { ...deck, main, side };
+}
+
+export function deckSize(deck: SealedDeck): number {
+  return deck.main.length + Object.values(deck.basics).reduce((a, b) => a + b, 0);
+}
+
+/** MTGO-style text decklist: main deck, blank line, "Sideboard" section. */
+export function deckToText(pool: PoolCard[], deck: SealedDeck): string {
+  const byUid = new Map(pool.map((c) => [c.uid, c]));
+  const pick = (uids: string[]) => uids.map((u) => byUid.get(u)).filter((c): c is PoolCard => !!c);
+
+  const main = countLines(pick(deck.main));
+  for (const b of BASIC_LANDS) {
+    if (deck.basics[b.color] > 0) main.push(`${deck.basics[b.color]} ${b.name}`);
+  }
+  const side = countLines(pick(deck.side));
+  return [...main, "", "Sideboard", ...side].join("\n");
+}
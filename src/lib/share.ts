@@ -0,0 +1,145 @@
+import { COLLECTION_BATCH_SIZE, fetchCollection, getThumb, type ScryfallCard } from "./scryfall";
+import { cardToEntry, clampQty, type CubeEntry } from "./storage";
+
+/**
+ * Shareable links: the cube (set + collector number and qty per row, plus
+ * name and description) is deflated and base64url-encoded into the URL
+ * fragment, so nothing leaves the browser and no backend is needed.
+ */
+
+const FRAGMENT_KEY = "share=";
+// First character of the payload: "z" deflate-raw, "p" plain (browsers without CompressionStream)
+const DEFLATED = "z";
+const PLAIN = "p";
+
+export type SharedItem = {
+  qty: number;
+  set: string;
+  collector_number: string;
+};
+
+export type SharedCube = {
+  name: string;
+  description: string;
+  items: SharedItem[];
+};
+
+type SharePayloadV1 = {
+  v: 1;
+  n: string;
+  d?: string;
+  c: Array<[string, string] | [string, string, number]>; // [set, number, qty?]; qty 1 is omitted
+};
+
+export type SharedResolution = {
+  entries: CubeEntry[];
+  missing: SharedItem[];
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+async function pipe(bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform as TransformStream<Uint8Array, Uint8Array>);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function cubeToShared(name: string, description: string, entries: CubeEntry[]): SharedCube {
+  return {
+    name,
+    description,
+    items: entries.map((e) => ({ qty: e.qty, set: e.set, collector_number: e.collector_number }))
+  };
+}
+
+export async function encodeShare(cube: SharedCube): Promise<string> {
+  const items = cube.items
+    .slice()
+    .sort((a, b) => a.set.localeCompare(b.set) || a.collector_number.localeCompare(b.collector_number, undefined, { numeric: true }));
+  const payload: SharePayloadV1 = {
+    v: 1,
+    n: cube.name,
+    d: cube.description || undefined,
+    c: items.map((i) => (i.qty === 1 ? [i.set, i.collector_number] : [i.set, i.collector_number, i.qty]))
+  };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  if (typeof CompressionStream === "undefined") return PLAIN + toBase64Url(bytes);
+  return DEFLATED + toBase64Url(await pipe(bytes, new CompressionStream("deflate-raw")));
+}
+
+export async function decodeShare(data: string): Promise<SharedCube> {
+  try {
+    let bytes = fromBase64Url(data.slice(1));
+    if (data[0] === DEFLATED) {
+      if (typeof DecompressionStream === "undefined") throw new Error("unsupported");
+      bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+    } else if (data[0] !== PLAIN) {
+      throw new Error("prefix");
+    }
+    const p = JSON.parse(new TextDecoder().decode(bytes)) as SharePayloadV1;
+    if (p?.v !== 1 || !Array.isArray(p.c)) throw new Error("shape");
+    // Rows of the same printing would become entries with the same id: sum them instead
+    const items = new Map<string, SharedItem>();
+    for (const row of p.c) {
+      if (!Array.isArray(row) || typeof row[0] !== "string" || typeof row[1] !== "string") continue;
+      const qty = clampQty(Number(row[2] ?? 1));
+      const key = `${row[0].toLowerCase()}|${row[1]}`;
+      const existing = items.get(key);
+      if (existing) existing.qty = clampQty(existing.qty + qty);
+      else items.set(key, { set: row[0], collector_number: row[1], qty });
+    }
+    return { name: String(p.n ?? "Cubo condiviso"), description: String(p.d ?? ""), items: Array.from(items.values()) };
+  } catch {
+    throw new Error("Link di condivisione non valido o danneggiato.");
+  }
+}
+
+export function shareUrl(encoded: string): string {
+  return `${window.location.origin}${window.location.pathname}#${FRAGMENT_KEY}${encoded}`;
+}
+
+/** Encoded payload from a location hash, or null when the hash is not a share link. */
+export function readShareFragment(hash: string): string | null {
+  const h = hash.replace(/^#/, "");
+  return h.startsWith(FRAGMENT_KEY) && h.length > FRAGMENT_KEY.length ? h.slice(FRAGMENT_KEY.length) : null;
+}
+
+/** Look up every shared printing on Scryfall by set and collector number. */
+export async function resolveShared(
+  cube: SharedCube,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<SharedResolution> {
+  const found = new Map<string, ScryfallCard>();
+  const key = (set: string, num: string) => `${set.toLowerCase()}|${num}`;
+  for (let i = 0; i < cube.items.length; i += COLLECTION_BATCH_SIZE) {
+    const batch = cube.items.slice(i, i + COLLECTION_BATCH_SIZE);
+    const { data } = await fetchCollection(batch.map((it) => ({ set: it.set, collector_number: it.collector_number })), signal);
+    for (const c of data) found.set(key(c.set, c.collector_number), c);
+    onProgress?.(Math.min(i + batch.length, cube.items.length), cube.items.length);
+  }
+
+  const entries: CubeEntry[] = [];
+  const missing: SharedItem[] = [];
+  for (const it of cube.items) {
+    const card = found.get(key(it.set, it.collector_number));
+    if (!card) {
+      missing.push(it);
+      continue;
+    }
+    const entry = cardToEntry(card, getThumb(card));
+    entry.qty = it.qty;
+    entries.push(entry);
+  }
+  return { entries, missing };
+}
@@ -1,4 +1,9 @@
+import { dataStore, writeError } from "./dataStore";
+import { cardFaces, type CardFace } from "./faces";
+import { parsePrices, type CardPrices } from "./prices";
+import { migrateEntries, SCHEMA_VERSION } from "./schema";
 import type { ScryfallCard } from "./scryfall";
+import { mergeTags } from "./tags";
 
 export type CubeEntry = {
   id: string;
@@ -12,9 +17,22 @@ export type CubeEntry = {
   mana_cost?: string;
   cmc?: number;
   color_identity?: string[];
+  produced_mana?: string[];
+  mtgo_id?: number;
+  arena_id?: number;
 
   scryfall_uri: string;
   thumb?: string;
+
+  layout?: string;
+  faces?: CardFace[]; // multi-face cards only, front first
+
+  prices?: CardPrices;
+  prices_at?: number; // epoch ms of the Scryfall data the prices come from
+
+  // Designer metadata, never taken from Scryfall
+  tags?: string[];
+  notes?: string;
 };
 
 const KEY = "mtg_cube_v1";
@@ -22,35 +40,128 @@ const META_KEY = "mtg_cube_meta_v1";
 
 export type CubeMeta = {
   updated_at: number; // epoch ms
-  version: 1;
+  version: number; // schema version of the stored entries (see schema.ts)
+  tab?: string; // browser tab that wrote this revision
 };
 
-export function loadCube(): CubeEntry[] {
+// Identifies this tab's own writes among the other tabs' ones
+const TAB_ID = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Each cube of the library stores entries/meta under its own suffixed key
+function cubeKey(cubeId: string) {
+  return `${KEY}__${cubeId}`;
+}
+
+function metaKey(cubeId: string) {
+  return `${META_KEY}__${cubeId}`;
+}
+
+function readMeta(key: string): CubeMeta | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    return JSON.parse(raw) as CubeMeta;
+  } catch {
+    return null;
+  }
+}
+
+// Entries live in the data store (IndexedDB); the small meta stays in localStorage,
+// where its storage events tell the other tabs that the cube changed.
+// Entries written by an older build are migrated on the way in; a newer build's data is refused.
+export async function loadCube(cubeId: string): Promise<CubeEntry[]> {
+  const store = await dataStore();
+  let parsed: unknown;
   try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed as CubeEntry[];
+    parsed = await store.get<unknown>(cubeKey(cubeId));
   } catch {
     return [];
   }
+  if (!Array.isArray(parsed)) return [];
+  return migrateEntries(parsed, loadMeta(cubeId)?.version, "Il cubo salvato");
+}
+
+/** Write the cube and a new meta revision; returns the meta just written. */
+export async function saveCube(cubeId: string, items: CubeEntry[]): Promise<CubeMeta> {
+  const store = await dataStore();
+  try {
+    await store.set(cubeKey(cubeId), items);
+  } catch (e) {
+    throw writeError(e, "il cubo");
+  }
+  const meta: CubeMeta = { updated_at: Date.now(), version: SCHEMA_VERSION, tab: TAB_ID };
+  localStorage.setItem(metaKey(cubeId), JSON.stringify(meta));
+  return meta;
+}
+
+export function loadMeta(cubeId: string): CubeMeta | null {
+  return readMeta(metaKey(cubeId));
+}
+
+/** True when both metas describe the same saved revision. */
+export function sameRevision(a: CubeMeta | null, b: CubeMeta | null): boolean {
+  return (a?.updated_at ?? null) === (b?.updated_at ?? null) && a?.tab === b?.tab;
+}
+
+/**
+ * Call `onChange` when another tab saves the given cube. The meta is written
+ * after the entries, so its storage event means the new entries are in place.
+ */
+export function watchCube(cubeId: string, onChange: () => void): () => void {
+  const key = metaKey(cubeId);
+  const handler = (e: StorageEvent) => {
+    if (e.storageArea === localStorage && (e.key === key || e.key === null)) onChange();
+  };
+  window.addEventListener("storage", handler);
+  return () => window.removeEventListener("storage", handler);
 }
 
-export function saveCube(items: CubeEntry[]) {
-  localStorage.setItem(KEY, JSON.stringify(items));
-  const meta: CubeMeta = { updated_at: Date.now(), version: 1 };
-  localStorage.setItem(META_KEY, JSON.stringify(meta));
+export async function deleteCubeData(cubeId: string) {
+  const store = await dataStore();
+  await store.remove(cubeKey(cubeId));
+  localStorage.removeItem(metaKey(cubeId));
 }
 
-export function loadMeta(): CubeMeta | null {
+/** Move a cube's entries from localStorage (before IndexedDB) into the data store; no-op when already moved. */
+export async function migrateCubeData(cubeId: string) {
+  const store = await dataStore();
+  if (store.kind !== "indexeddb") return;
+  const raw = localStorage.getItem(cubeKey(cubeId));
+  if (raw === null) return;
+  let entries: unknown;
   try {
-    const raw = localStorage.getItem(META_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw) as CubeMeta;
+    entries = JSON.parse(raw);
   } catch {
-    return null;
+    entries = [];
   }
+  try {
+    await store.set(cubeKey(cubeId), Array.isArray(entries) ? entries : []);
+  } catch (e) {
+    throw writeError(e, "il cubo migrato");
+  }
+  localStorage.removeItem(cubeKey(cubeId));
+}
+
+/** Ids of the cubes with a saved revision (meta) or entries still in localStorage, most recently saved first. */
+export function storedCubeIds(): string[] {
+  const ids = new Set<string>();
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i) ?? "";
+    for (const prefix of [`${META_KEY}__`, `${KEY}__`]) {
+      if (key.startsWith(prefix)) ids.add(key.slice(prefix.length));
+    }
+  }
+  return Array.from(ids).sort((a, b) => (loadMeta(b)?.updated_at ?? 0) - (loadMeta(a)?.updated_at ?? 0));
+}
+
+/** Move the legacy single-cube data (pre-library `mtg_cube_v1`) under the given cube id. */
+export function moveLegacyCube(cubeId: string) {
+  const raw = localStorage.getItem(KEY);
+  if (raw !== null) localStorage.setItem(cubeKey(cubeId), raw);
+  const rawMeta = localStorage.getItem(META_KEY);
+  if (rawMeta !== null) localStorage.setItem(metaKey(cubeId), rawMeta);
+  localStorage.removeItem(KEY);
+  localStorage.removeItem(META_KEY);
 }
 
 export function cardToEntry(card: ScryfallCard, thumb?: string): CubeEntry {
@@ -65,7 +176,79 @@ export function cardToEntry(card: ScryfallCard, thumb?: string): CubeEntry {
     mana_cost: card.mana_cost,
     cmc: card.cmc,
     color_identity: card.color_identity,
+    produced_mana: card.produced_mana,
+    mtgo_id: card.mtgo_id,
+    arena_id: card.arena_id,
     scryfall_uri: card.scryfall_uri,
-    thumb
+    thumb,
+    layout: card.layout,
+    faces: cardFaces(card),
+    prices: parsePrices(card.prices),
+    prices_at: card.prices ? Date.now() : undefined
+  };
+}
+
+export function clampQty(n: number): number {
+  return Math.max(1, Math.min(99, Number(n) || 1));
+}
+
+// Sum qty (capped at 99) into the row at idx and merge tags, or append when idx is -1
+function addAt(prev: CubeEntry[], idx: number, entry: CubeEntry): CubeEntry[] {
+  if (idx < 0) return [...prev, entry];
+  const next = prev.slice();
+  const cur = next[idx];
+  next[idx] = { ...cur, qty: Math.min(99, cur.qty + entry.qty) };
+  if (entry.tags?.length) next[idx].tags = mergeTags(cur.tags, entry.tags);
+  if (entry.notes && !cur.notes) next[idx].notes = entry.notes;
+  return next;
+}
+
+/** Add a printing the user picked: the same printing (id) sums qty, another printing of a card already in the cube gets its own row. */
+export function addEntry(prev: CubeEntry[], entry: CubeEntry): CubeEntry[] {
+  return addAt(prev, prev.findIndex((x) => x.id === entry.id), entry);
+}
+
+/**
+ * Add a card from a bulk path (pasted list, CSV, search results, quick add),
+ * where no printing was chosen: a card already in the cube, in any printing,
+ * sums qty into its existing row.
+ */
+export function addEntryByName(prev: CubeEntry[], entry: CubeEntry): CubeEntry[] {
+  const idx = prev.findIndex((x) => x.id === entry.id);
+  return addAt(prev, idx >= 0 ? idx : prev.findIndex((x) => x.name === entry.name), entry);
+}
+
+/**
+ * Swap the printing of an existing entry, keeping its qty. If the new printing
+ * is already another row, the two rows are merged so ids stay unique.
+ */
+export function replacePrinting(prev: CubeEntry[], entryId: string, card: ScryfallCard, thumb?: string): CubeEntry[] {
+  const cur = prev.find((x) => x.id === entryId);
+  const target = card.id !== entryId ? prev.find((x) => x.id === card.id) : undefined;
+  if (!cur || !target) return prev.map((x) => (x.id === entryId ? { ...x, ...cardToEntry(card, thumb), qty: x.qty } : x));
+  const merged: CubeEntry = {
+    ...target,
+    ...cardToEntry(card, thumb),
+    qty: Math.min(99, target.qty + cur.qty),
+    tags: mergeTags(target.tags, cur.tags),
+    notes: target.notes || cur.notes
   };
+  return prev.filter((x) => x.id !== entryId).map((x) => (x.id === card.id ? merged : x));
+}
+
+/** Merge imported entries into the cube: same id sums qty (rows without an id match by name), new ones are appended. */
+export function mergeEntries(prev: CubeEntry[], incoming: CubeEntry[]): CubeEntry[] {
+  const map = new Map<string, CubeEntry>();
+  for (const p of prev) map.set(p.id || p.name, { ...p });
+
+  for (const e of incoming) {
+    const key = e.id || e.name;
+    const existing = map.get(key);
+    if (existing) {
+      map.set(key, { ...existing, qty: Math.min(99, existing.qty + e.qty), tags: mergeTags(existing.tags, e.tags) });
+    } else {
+      map.set(key, { ...e });
+    }
+  }
+  return Array.from(map.values());
 }
@@ -0,0 +1,81 @@
+import { clampQty, type CubeEntry } from "./storage";
+import { mergeTags } from "./tags";
+
+/** Difference between two versions of the same cube, by entry id (or name). */
+export type EntryDiff = {
+  added: CubeEntry[];
+  removed: CubeEntry[];
+  changed: Array<{ before: CubeEntry; after: CubeEntry }>;
+};
+
+export type MergeResult = {
+  entries: CubeEntry[];
+  overlaps: string[]; // names edited in both tabs; qty deltas were summed and tags united
+};
+
+/** Identity of an entry within a cube. */
+export function entryKey(e: CubeEntry) {
+  return e.id || e.name;
+}
+
+function sameEntry(a: CubeEntry, b: CubeEntry) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function byKey(entries: CubeEntry[]) {
+  return new Map(entries.map((e) => [entryKey(e), e]));
+}
+
+export function diffEntries(from: CubeEntry[], to: CubeEntry[]): EntryDiff {
+  const before = byKey(from);
+  const after = byKey(to);
+  const diff: EntryDiff = { added: [], removed: [], changed: [] };
+  for (const e of to) {
+    const prev = before.get(entryKey(e));
+    if (!prev) diff.added.push(e);
+    else if (!sameEntry(prev, e)) diff.changed.push({ before: prev, after: e });
+  }
+  for (const e of from) if (!after.has(entryKey(e))) diff.removed.push(e);
+  return diff;
+}
+
+/**
+ * Three-way merge of two tabs' edits made from the same saved `base`: each
+ * side's additions, removals and edits are kept. An entry edited on both sides
+ * keeps this tab's fields with both qty changes applied; an entry removed on one
+ * side and edited on the other is kept.
+ */
+export function mergeThreeWay(base: CubeEntry[], local: CubeEntry[], remote: CubeEntry[]): MergeResult {
+  const b = byKey(base);
+  const l = byKey(local);
+  const overlaps: string[] = [];
+  const entries: CubeEntry[] = [];
+
+  for (const r of remote) {
+    const key = entryKey(r);
+    const orig = b.get(key);
+    const mine = l.get(key);
+    if (!mine) {
+      // Removed here: drop it unless the other tab changed it meanwhile
+      if (!orig || !sameEntry(orig, r)) entries.push(r);
+      continue;
+    }
+    if (orig && sameEntry(orig, mine)) entries.push(r);
+    else if ((orig && sameEntry(orig, r)) || sameEntry(mine, r)) entries.push(mine);
+    else {
+      overlaps.push(mine.name);
+      entries.push({ ...mine, qty: clampQty(mine.qty + r.qty - (orig?.qty ?? 0)), tags: mergeTags(mine.tags, r.tags) });
+    }
+  }
+
+  const r = byKey(remote);
+  for (const mine of local) {
+    const key = entryKey(mine);
+    if (r.has(key)) continue;
+    const orig = b.get(key);
+    // Removed in the other tab: drop it unless it was changed here
+    if (!orig || !sameEntry(orig, mine)) entries.push(mine);
+  }
+
+  return { entries, overlaps };
+}
@@ -0,0 +1,37 @@
+import type { CubeEntry } from "./storage";
+
+/** Tags are lowercase, trimmed and use dashes instead of spaces ("Aggro Signpost" → "aggro-signpost"). */
+export function normalizeTag(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\s+/g, "-").replace(/[,;]/g, "");
+}
+
+/** Split user input like "removal, ramp; to-cut" into normalized tags. */
+export function parseTags(raw: string): string[] {
+  return Array.from(new Set(raw.split(/[,;]/).map(normalizeTag).filter(Boolean)));
+}
+
+export function mergeTags(a: string[] = [], b: string[] = []): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/** Every tag in use with the number of entries carrying it, most used first. */
+export function allTags(entries: CubeEntry[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const e of entries) for (const t of e.tags ?? []) counts.set(t, (counts.get(t) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function addTags(prev: CubeEntry[], ids: Set<string>, tags: string[]): CubeEntry[] {
+  return prev.map((e) => (ids.has(e.id) ? { ...e, tags: mergeTags(e.tags, tags) } : e));
+}
+
+export function removeTags(prev: CubeEntry[], ids: Set<string>, tags: string[]): CubeEntry[] {
+  return prev.map((e) => (ids.has(e.id) && e.tags ? { ...e, tags: e.tags.filter((t) => !tags.includes(t)) } : e));
+}
+
+export function setEntryMeta(prev: CubeEntry[], id: string, tags: string[], notes: string): CubeEntry[] {
+  const n = notes.trim();
+  return prev.map((e) => (e.id === id ? { ...e, tags, notes: n || undefined } : e));
+}
@@ -1,10 +1,34 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import SharedCubeView from "./components/SharedCubeView";
+import { readShareFragment } from "./lib/share";
 import "./styles.css";
 
+// A share link (#share=...) opens the read-only viewer instead of the editor
+function Root() {
+  const [shared, setShared] = useState(() => readShareFragment(window.location.hash));
+
+  useEffect(() => {
+    const onHash = () => setShared(readShareFragment(window.location.hash));
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+
+  if (!shared) return <App />;
+  return (
+    <SharedCubeView
+      encoded={shared}
+      onExit={() => {
+        history.replaceState(null, "", window.location.pathname + window.location.search);
+        setShared(null);
+      }}
+    />
+  );
+}
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );